@@ -0,0 +1,247 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { analyzeBackground, rgbToHex } from './background';
+
+// Frame registration. The model drifts by a few pixels, rescales slightly and sometimes
+// returns another resolution, which makes the animation wobble. Every frame is first
+// resized to one canvas size and then shifted and scaled so that a region which should
+// not move (the feet by default, or a user-chosen anchor) lines up with the reference frame.
+
+export type AlignmentMode = 'static' | 'anchor';
+
+export const ALIGNMENT_MODE_LABELS: Record<AlignmentMode, string> = {
+    static: 'Static region (feet / ground contact)',
+    anchor: 'Anchor point',
+};
+
+export interface AlignmentSettings {
+    mode: AlignmentMode;
+    // Normalized (0-1) anchor position on the reference frame, for the 'anchor' mode.
+    anchor: { x: number; y: number };
+    // Largest shift searched for, as a fraction of the canvas size.
+    maxShift: number;
+}
+
+export const DEFAULT_ALIGNMENT_SETTINGS: AlignmentSettings = {
+    mode: 'static',
+    anchor: { x: 0.5, y: 0.9 },
+    maxShift: 0.06,
+};
+
+// The transform that was applied to a frame, in output pixels.
+export interface FrameTransform {
+    dx: number;
+    dy: number;
+    scale: number;
+}
+
+interface Rect { x: number; y: number; w: number; h: number; }
+
+// Registration runs on a downscaled grayscale copy to keep the search cheap.
+const WORK_SIZE = 160;
+const SCALES = [0.95, 0.975, 1, 1.025, 1.05];
+// Share of the character's height, from the bottom, treated as the static region.
+const STATIC_REGION_SHARE = 0.2;
+// Size of the patch matched around an anchor, as a fraction of the working size.
+const ANCHOR_PATCH_SHARE = 0.12;
+const FOREGROUND_DISTANCE = 40;
+// Shifts up to this many pixels are searched directly; wider searches go coarse to fine.
+const MAX_DIRECT_SHIFT = 4;
+// A region smaller than this is too small to halve and still match.
+const MIN_COARSE_REGION = 8;
+// How far a coarse result is refined at the next size up, in pixels.
+const REFINE_RADIUS = 2;
+
+interface GrayImage { width: number; height: number; data: Float32Array; }
+
+// Helper to draw an image onto a canvas of the given size, fitted without distortion
+const drawFitted = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number, height: number, fill: string | null): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not create a canvas to align the frames.');
+    if (fill) {
+        ctx.fillStyle = fill;
+        ctx.fillRect(0, 0, width, height);
+    }
+    const scale = Math.min(width / sourceWidth, height / sourceHeight);
+    const w = sourceWidth * scale;
+    const h = sourceHeight * scale;
+    ctx.drawImage(source, (width - w) / 2, (height - h) / 2, w, h);
+    return canvas;
+};
+
+// Helper to get the colour a frame's uncovered edges should be filled with
+const getFill = (canvas: HTMLCanvasElement): string | null => {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const info = analyzeBackground(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    return info.kind === 'transparent' ? null : rgbToHex(info.color);
+};
+
+// Helper to convert a canvas into grayscale, with transparent pixels as black
+const toGray = (canvas: HTMLCanvasElement, width: number, height: number): { gray: GrayImage; foreground: Uint8Array } => {
+    const small = drawFitted(canvas, canvas.width, canvas.height, width, height, null);
+    const { data } = small.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, width, height);
+    const image = new ImageData(new Uint8ClampedArray(data), width, height);
+    const background = analyzeBackground(image);
+    const gray = new Float32Array(width * height);
+    const foreground = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+        const o = i * 4;
+        const alpha = data[o + 3] / 255;
+        gray[i] = (0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]) * alpha;
+        const [r, g, b] = background.color;
+        foreground[i] = background.kind === 'transparent'
+            ? (data[o + 3] > 16 ? 1 : 0)
+            : (Math.hypot(data[o] - r, data[o + 1] - g, data[o + 2] - b) > FOREGROUND_DISTANCE ? 1 : 0);
+    }
+    return { gray: { width, height, data: gray }, foreground };
+};
+
+// Helper to find the region of the reference that should stay put
+const getStaticRegion = (foreground: Uint8Array, width: number, height: number): Rect => {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!foreground[y * width + x]) continue;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    if (maxX < 0) return { x: 0, y: 0, w: width, h: height };
+    const bandHeight = Math.max(4, Math.round((maxY - minY + 1) * STATIC_REGION_SHARE));
+    const pad = 2;
+    const x = Math.max(0, minX - pad);
+    const y = Math.max(0, maxY - bandHeight - pad);
+    return { x, y, w: Math.min(width, maxX + pad + 1) - x, h: Math.min(height, maxY + pad + 1) - y };
+};
+
+const getAnchorRegion = (anchor: { x: number; y: number }, width: number, height: number): Rect => {
+    const size = Math.max(6, Math.round(Math.max(width, height) * ANCHOR_PATCH_SHARE));
+    const x = Math.round(Math.min(width - size, Math.max(0, anchor.x * width - size / 2)));
+    const y = Math.round(Math.min(height - size, Math.max(0, anchor.y * height - size / 2)));
+    return { x, y, w: size, h: size };
+};
+
+// Helper to halve a grayscale image, averaging every 2x2 block
+const halve = (image: GrayImage): GrayImage => {
+    const width = Math.max(1, Math.floor(image.width / 2));
+    const height = Math.max(1, Math.floor(image.height / 2));
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const o = 2 * y * image.width + 2 * x;
+            data[y * width + x] = (image.data[o] + image.data[o + 1] + image.data[o + image.width] + image.data[o + image.width + 1]) / 4;
+        }
+    }
+    return { width, height, data };
+};
+
+const halveRect = ({ x, y, w, h }: Rect): Rect => ({ x: Math.floor(x / 2), y: Math.floor(y / 2), w: Math.max(1, Math.floor(w / 2)), h: Math.max(1, Math.floor(h / 2)) });
+
+// Finds the shift and scale (about the region's centre) that best maps `frame` onto
+// `reference` within `region`, by exhaustive search over the sum of absolute differences
+// of every shift within `radius` pixels of `around`.
+const search = (reference: GrayImage, frame: GrayImage, region: Rect, around: { dx: number; dy: number }, radius: number, maxShift: number): FrameTransform => {
+    const cx = region.x + region.w / 2;
+    const cy = region.y + region.h / 2;
+    let best: FrameTransform = { dx: 0, dy: 0, scale: 1 };
+    let bestScore = Infinity;
+
+    for (const scale of SCALES) {
+        for (let dy = Math.max(-maxShift, around.dy - radius); dy <= Math.min(maxShift, around.dy + radius); dy++) {
+            for (let dx = Math.max(-maxShift, around.dx - radius); dx <= Math.min(maxShift, around.dx + radius); dx++) {
+                let score = 0;
+                let count = 0;
+                for (let y = region.y; y < region.y + region.h; y++) {
+                    for (let x = region.x; x < region.x + region.w; x++) {
+                        // The frame pixel that lands on reference pixel (x, y) after the transform
+                        const fx = Math.round((x - cx - dx) / scale + cx);
+                        const fy = Math.round((y - cy - dy) / scale + cy);
+                        if (fx < 0 || fy < 0 || fx >= frame.width || fy >= frame.height) continue;
+                        score += Math.abs(reference.data[y * reference.width + x] - frame.data[fy * frame.width + fx]);
+                        count++;
+                    }
+                }
+                if (count === 0) continue;
+                // Prefer the smallest change when scores tie
+                const normalized = score / count + (Math.abs(dx) + Math.abs(dy)) * 1e-3 + Math.abs(scale - 1) * 1e-2;
+                if (normalized < bestScore) {
+                    bestScore = normalized;
+                    best = { dx, dy, scale };
+                }
+            }
+        }
+    }
+    return best;
+};
+
+// Registers `frame` onto `reference` coarse to fine. A wide search is first done on
+// half-size copies, recursively, and its result is then refined within a pixel or two at
+// this size, so the cost stays close to that of the smallest search.
+const register = (reference: GrayImage, frame: GrayImage, region: Rect, maxShift: number): FrameTransform => {
+    if (maxShift <= MAX_DIRECT_SHIFT || region.w < MIN_COARSE_REGION || region.h < MIN_COARSE_REGION) {
+        return search(reference, frame, region, { dx: 0, dy: 0 }, maxShift, maxShift);
+    }
+    const coarse = register(halve(reference), halve(frame), halveRect(region), Math.ceil(maxShift / 2));
+    return search(reference, frame, region, { dx: coarse.dx * 2, dy: coarse.dy * 2 }, REFINE_RADIUS, maxShift);
+};
+
+// Aligns every frame to the first one. Returns the aligned frames as PNG data URLs, all
+// at `width` x `height`, along with the transform applied to each.
+export const alignFrames = async (
+    images: HTMLImageElement[],
+    width: number,
+    height: number,
+    settings: AlignmentSettings,
+): Promise<{ frames: string[]; transforms: FrameTransform[] }> => {
+    if (images.length === 0) return { frames: [], transforms: [] };
+    const sized = images.map(img => {
+        const fill = getFill(drawFitted(img, img.naturalWidth, img.naturalHeight, img.naturalWidth, img.naturalHeight, null));
+        return { canvas: drawFitted(img, img.naturalWidth, img.naturalHeight, width, height, fill), fill };
+    });
+
+    const workScale = Math.min(1, WORK_SIZE / Math.max(width, height));
+    const workWidth = Math.max(1, Math.round(width * workScale));
+    const workHeight = Math.max(1, Math.round(height * workScale));
+    const maxShift = Math.max(1, Math.round(Math.max(workWidth, workHeight) * settings.maxShift));
+
+    const reference = toGray(sized[0].canvas, workWidth, workHeight);
+    const region = settings.mode === 'anchor'
+        ? getAnchorRegion(settings.anchor, workWidth, workHeight)
+        : getStaticRegion(reference.foreground, workWidth, workHeight);
+    const centerX = (region.x + region.w / 2) / workScale;
+    const centerY = (region.y + region.h / 2) / workScale;
+
+    const transforms: FrameTransform[] = [];
+    const frames: string[] = [];
+    for (const [i, { canvas, fill }] of sized.entries()) {
+        // Let the page respond between frames
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, 0));
+        const transform = i === 0
+            ? { dx: 0, dy: 0, scale: 1 }
+            : register(reference.gray, toGray(canvas, workWidth, workHeight).gray, region, maxShift);
+        const output = { dx: Math.round(transform.dx / workScale), dy: Math.round(transform.dy / workScale), scale: transform.scale };
+        transforms.push(output);
+
+        const aligned = document.createElement('canvas');
+        aligned.width = width;
+        aligned.height = height;
+        const ctx = aligned.getContext('2d')!;
+        if (fill) {
+            ctx.fillStyle = fill;
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.setTransform(output.scale, 0, 0, output.scale, centerX * (1 - output.scale) + output.dx, centerY * (1 - output.scale) + output.dy);
+        ctx.drawImage(canvas, 0, 0);
+        frames.push(aligned.toDataURL('image/png'));
+    }
+    return { frames, transforms };
+};
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FrameSlotHistory } from './history';
+import { Timeline, createTimeline } from './timeline';
+
+// Animation sets: several named actions (idle, walk, attack, ...) for one character. All
+// actions start from one shared, cleaned base frame and use it as their style lock, so
+// the whole set stays in exactly the same style. Each action keeps its own plan, frame
+// history and timeline, and the set is reviewed one action at a time.
+
+export interface SetAction {
+    // Display name; also names the action's animation in the export.
+    name: string;
+    prompt: string;
+    numFrames: number;
+    isCyclic: boolean;
+    // Filled in as the action is planned and generated.
+    framePrompts: Record<string, string>[];
+    frameHistory: (FrameSlotHistory | null)[];
+    timeline: Timeline;
+    frameErrors: (string | null)[];
+}
+
+export interface AnimationSet {
+    actions: SetAction[];
+    // Index of the action shown in the main view.
+    active: number;
+    // The cleaned base frame every action starts from, once generated.
+    baseFrame: string | null;
+}
+
+export const createSetAction = (name: string, prompt: string, numFrames: number, isCyclic: boolean): SetAction => ({
+    name,
+    prompt,
+    numFrames,
+    isCyclic,
+    framePrompts: [],
+    frameHistory: [],
+    timeline: createTimeline(0),
+    frameErrors: [],
+});
+
+// The usual actions of a game character.
+export const createGameCharacterSet = (): AnimationSet => ({
+    actions: [
+        createSetAction('idle', 'standing idle, breathing gently', 6, true),
+        createSetAction('walk', 'walking in place, a full walk cycle', 8, true),
+        createSetAction('run', 'running in place, a full run cycle', 8, true),
+        createSetAction('jump', 'crouching, jumping up and landing', 9, false),
+        createSetAction('attack', 'a quick melee attack, winding up, striking and recovering', 7, false),
+        createSetAction('hurt', 'flinching back after being hit, then recovering', 5, false),
+    ],
+    active: 0,
+    baseFrame: null,
+});
+
+// Helper to turn an action name into a file-safe animation name
+const toAnimationName = (name: string): string =>
+    name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'animation';
+
+// Helper to name every action for export. Names are made file-safe and kept unique,
+// so two actions called "Walk" become "walk" and "walk_2".
+export const getAnimationNames = (actions: SetAction[]): string[] => {
+    const used = new Set<string>();
+    return actions.map(action => {
+        const base = toAnimationName(action.name);
+        let name = base;
+        for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+        used.add(name);
+        return name;
+    });
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Animated PNG encoder that keeps the full 8-bit alpha channel. Pixel rows are
+// filtered here and compressed with the browser's built-in CompressionStream.
+
+export interface ApngEncodeOptions {
+    // Display time of each frame in milliseconds.
+    delaysMs: number[];
+    // Loop forever when true, play once when false.
+    loop: boolean;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number): number[] => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number): number[] => [(value >>> 8) & 0xff, value & 0xff];
+
+// Helper to build a PNG chunk: length, type, data and a CRC over type + data
+const chunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+};
+
+const zlibDeflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    return pb <= pc ? b : c;
+};
+
+// Applies a PNG filter to every RGBA row, picking the filter with the smallest sum of absolute values.
+const filterRows = ({ width, height, data }: ImageData): Uint8Array => {
+    const stride = width * 4;
+    const out = new Uint8Array(height * (stride + 1));
+    const candidate = new Uint8Array(stride);
+    const best = new Uint8Array(stride);
+
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        const prev = row - stride;
+        let bestFilter = 0;
+        let bestScore = Infinity;
+
+        for (let filter = 0; filter <= 4; filter++) {
+            let score = 0;
+            for (let x = 0; x < stride; x++) {
+                const raw = data[row + x];
+                const left = x >= 4 ? data[row + x - 4] : 0;
+                const up = y > 0 ? data[prev + x] : 0;
+                const upLeft = x >= 4 && y > 0 ? data[prev + x - 4] : 0;
+                let value: number;
+                switch (filter) {
+                    case 1: value = raw - left; break;
+                    case 2: value = raw - up; break;
+                    case 3: value = raw - ((left + up) >> 1); break;
+                    case 4: value = raw - paeth(left, up, upLeft); break;
+                    default: value = raw;
+                }
+                candidate[x] = value & 0xff;
+                score += candidate[x] < 128 ? candidate[x] : 256 - candidate[x];
+            }
+            if (score < bestScore) {
+                bestScore = score;
+                bestFilter = filter;
+                best.set(candidate);
+            }
+        }
+
+        const offset = y * (stride + 1);
+        out[offset] = bestFilter;
+        out.set(best, offset + 1);
+    }
+    return out;
+};
+
+// Encodes equally sized frames into an animated PNG.
+export const encodeApng = async (frames: ImageData[], options: ApngEncodeOptions): Promise<Uint8Array> => {
+    if (frames.length === 0) throw new Error('Cannot encode an APNG without frames.');
+    const { width, height } = frames[0];
+    const chunks: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+
+    // 8-bit RGBA, no interlacing.
+    chunks.push(chunk('IHDR', [...uint32(width), ...uint32(height), 8, 6, 0, 0, 0]));
+    chunks.push(chunk('acTL', [...uint32(frames.length), ...uint32(options.loop ? 0 : 1)]));
+
+    let sequence = 0;
+    for (let i = 0; i < frames.length; i++) {
+        const frame = frames[i];
+        if (frame.width !== width || frame.height !== height) {
+            throw new Error('All APNG frames must have the same size.');
+        }
+        // Full-frame region, replaced (not blended) on every frame.
+        chunks.push(chunk('fcTL', [
+            ...uint32(sequence++),
+            ...uint32(width), ...uint32(height),
+            ...uint32(0), ...uint32(0),
+            ...uint16(Math.min(0xffff, Math.max(1, Math.round(options.delaysMs[i] ?? 100)))), ...uint16(1000),
+            0, 0,
+        ]));
+
+        const compressed = await zlibDeflate(filterRows(frame));
+        if (i === 0) {
+            chunks.push(chunk('IDAT', compressed));
+        } else {
+            const data = new Uint8Array(4 + compressed.length);
+            data.set(uint32(sequence++), 0);
+            data.set(compressed, 4);
+            chunks.push(chunk('fdAT', data));
+        }
+    }
+
+    chunks.push(chunk('IEND', []));
+
+    const total = chunks.reduce((sum, c) => sum + c.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const c of chunks) {
+        out.set(c, offset);
+        offset += c.length;
+    }
+    return out;
+};
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Background clean-up for generated frames. The model rarely reproduces a background
+// exactly, so frames flicker during playback. Every frame is keyed to real alpha and
+// then composited onto one shared backdrop, which makes the background identical in all
+// frames.
+
+export type BackgroundKind = 'transparent' | 'solid' | 'complex';
+
+export interface BackgroundInfo {
+    kind: BackgroundKind;
+    // The dominant border colour; only meaningful for solid backgrounds.
+    color: [number, number, number];
+}
+
+export type BackdropMode = 'transparent' | 'solid' | 'original';
+
+export interface BackgroundSettings {
+    enabled: boolean;
+    backdrop: BackdropMode;
+    // Backdrop colour for the 'solid' mode, as a CSS hex colour.
+    backdropColor: string;
+    // Colour distance (0-441) below which a pixel counts as background.
+    tolerance: number;
+    // Width of the colour distance band that fades from background to foreground.
+    feather: number;
+}
+
+export const DEFAULT_BACKGROUND_SETTINGS: BackgroundSettings = {
+    enabled: false,
+    backdrop: 'original',
+    backdropColor: '#ffffff',
+    tolerance: 40,
+    feather: 30,
+};
+
+export const BACKDROP_LABELS: Record<BackdropMode, string> = {
+    transparent: 'Transparent',
+    solid: 'Solid colour',
+    original: 'Original background',
+};
+
+// Pixels more transparent than this count as transparent background.
+const TRANSPARENT_ALPHA = 16;
+// Share of border pixels that must agree for a background to be transparent or solid.
+const BORDER_AGREEMENT = 0.8;
+// How close a border pixel must be to the dominant colour to agree with it.
+const SOLID_COLOR_DISTANCE = 40;
+const BORDER_THICKNESS = 2;
+
+const colorDistance = (data: Uint8ClampedArray, offset: number, [r, g, b]: [number, number, number]): number =>
+    Math.hypot(data[offset] - r, data[offset + 1] - g, data[offset + 2] - b);
+
+// Helper to collect the pixel offsets along the edges of the image
+const getBorderOffsets = (width: number, height: number): number[] => {
+    const offsets: number[] = [];
+    const thickness = Math.min(BORDER_THICKNESS, Math.floor(width / 2), Math.floor(height / 2));
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (x >= thickness && x < width - thickness && y >= thickness && y < height - thickness) {
+                x = width - thickness - 1;
+                continue;
+            }
+            offsets.push((y * width + x) * 4);
+        }
+    }
+    return offsets;
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+export const rgbToHex = ([r, g, b]: [number, number, number]): string =>
+    `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+// Classifies the background from the whole image border rather than a few sample pixels.
+export const analyzeBackground = (image: ImageData): BackgroundInfo => {
+    const { width, height, data } = image;
+    const border = getBorderOffsets(width, height);
+    if (border.length === 0) return { kind: 'complex', color: [0, 0, 0] };
+
+    const transparentCount = border.filter(offset => data[offset + 3] < TRANSPARENT_ALPHA).length;
+    if (transparentCount / border.length >= BORDER_AGREEMENT) return { kind: 'transparent', color: [0, 0, 0] };
+
+    // The per-channel median is robust against the character touching the border
+    const opaque = border.filter(offset => data[offset + 3] >= TRANSPARENT_ALPHA);
+    const median = (channel: number) => {
+        const values = opaque.map(offset => data[offset + channel]).sort((a, b) => a - b);
+        return values[Math.floor(values.length / 2)];
+    };
+    const color: [number, number, number] = [median(0), median(1), median(2)];
+    const agreeing = opaque.filter(offset => colorDistance(data, offset, color) <= SOLID_COLOR_DISTANCE).length;
+    return { kind: agreeing / border.length >= BORDER_AGREEMENT ? 'solid' : 'complex', color };
+};
+
+// Keys out a solid background colour to real alpha. Only pixels connected to the image
+// border are removed, so parts of the character that share the background colour survive.
+// Pixels in the feather band get partial alpha, with the key colour unmixed from them so
+// edges don't keep a halo of the old background.
+export const removeBackground = (image: ImageData, key: [number, number, number], settings: Pick<BackgroundSettings, 'tolerance' | 'feather'>): ImageData => {
+    const { width, height } = image;
+    const data = new Uint8ClampedArray(image.data);
+    const limit = settings.tolerance + settings.feather;
+    const visited = new Uint8Array(width * height);
+    const queue = new Int32Array(width * height);
+    let head = 0, tail = 0;
+
+    const enqueue = (pixel: number) => {
+        if (visited[pixel]) return;
+        visited[pixel] = 1;
+        if (data[pixel * 4 + 3] >= TRANSPARENT_ALPHA && colorDistance(data, pixel * 4, key) > limit) return;
+        queue[tail++] = pixel;
+    };
+    getBorderOffsets(width, height).forEach(offset => enqueue(offset / 4));
+
+    while (head < tail) {
+        const pixel = queue[head++];
+        const offset = pixel * 4;
+        const distance = data[offset + 3] < TRANSPARENT_ALPHA ? 0 : colorDistance(data, offset, key);
+        const alpha = distance <= settings.tolerance ? 0 : Math.min(1, (distance - settings.tolerance) / Math.max(1, settings.feather));
+        if (alpha === 0) {
+            data[offset + 3] = 0;
+        } else {
+            for (let c = 0; c < 3; c++) {
+                data[offset + c] = (data[offset + c] - (1 - alpha) * key[c]) / alpha;
+            }
+            data[offset + 3] = Math.round(data[offset + 3] * alpha);
+        }
+
+        const x = pixel % width;
+        const y = (pixel - x) / width;
+        if (x > 0) enqueue(pixel - 1);
+        if (x < width - 1) enqueue(pixel + 1);
+        if (y > 0) enqueue(pixel - width);
+        if (y < height - 1) enqueue(pixel + width);
+    }
+    return new ImageData(data, width, height);
+};
+
+// Composites a keyed frame over a solid colour, or returns it as is for a transparent backdrop
+export const compositeOntoColor = (cutout: ImageData, color: [number, number, number] | null): ImageData => {
+    const data = new Uint8ClampedArray(cutout.data);
+    for (let offset = 0; offset < data.length; offset += 4) {
+        const alpha = data[offset + 3] / 255;
+        if (color) {
+            for (let c = 0; c < 3; c++) {
+                data[offset + c] = Math.round(data[offset + c] * alpha + color[c] * (1 - alpha));
+            }
+            data[offset + 3] = 255;
+        } else if (data[offset + 3] < TRANSPARENT_ALPHA) {
+            data[offset + 3] = 0;
+        }
+    }
+    return new ImageData(data, cutout.width, cutout.height);
+};
+
+// Runs the whole clean-up for one frame. `original` is the background of the uploaded
+// image, used by the 'original' backdrop. Returns null when the frame's background can't
+// be keyed (e.g. a photo or gradient), in which case the frame should be left untouched.
+export const cleanUpBackground = (frame: ImageData, original: BackgroundInfo, settings: BackgroundSettings): ImageData | null => {
+    const info = analyzeBackground(frame);
+    if (info.kind === 'complex') return null;
+    const cutout = info.kind === 'solid' ? removeBackground(frame, info.color, settings) : frame;
+
+    switch (settings.backdrop) {
+        case 'transparent': return compositeOntoColor(cutout, null);
+        case 'solid': return compositeOntoColor(cutout, hexToRgb(settings.backdropColor));
+        default:
+            if (original.kind === 'complex') return null;
+            return compositeOntoColor(cutout, original.kind === 'solid' ? original.color : null);
+    }
+};
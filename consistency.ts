@@ -0,0 +1,228 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadImage } from './images';
+import { analyzeBackground } from './background';
+
+// Local, model-free consistency checks. Every frame is compared with the style-lock image
+// and with its neighbours; frames whose scores stand out from the rest of the animation
+// are flagged as outliers so they can be corrected first.
+
+export interface FrameScore {
+    // Colour histogram distance to the style-lock image (0 = identical, 1 = disjoint).
+    colorVsStyle: number;
+    // Mean colour histogram distance to the neighbouring frames.
+    colorVsNeighbours: number;
+    // Mean structural similarity with the neighbouring frames (1 = identical).
+    ssim: number;
+    // Mean perceptual hash distance to the neighbouring frames (0-1).
+    hashDistance: number;
+    // Relative change of the silhouette area against the neighbours' average.
+    areaChange: number;
+    outlier: boolean;
+    // Human readable reasons for the outlier flag.
+    reasons: string[];
+}
+
+interface FrameFeatures {
+    histogram: Float32Array;
+    gray: Float32Array;
+    hash: Uint8Array;
+    area: number;
+}
+
+const SIZE = 64;
+const HASH_SIZE = 32;
+const HASH_BITS = 8;
+const HISTOGRAM_BINS = 4;
+const FOREGROUND_DISTANCE = 40;
+// Robust z-score above which a metric counts as an outlier.
+const OUTLIER_Z = 3;
+
+// Helper to draw an image into a square canvas of `size`, fitted without distortion
+const drawSmall = (img: HTMLImageElement, size: number): ImageData => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not create a canvas to score the frames.');
+    const scale = Math.min(size / img.naturalWidth, size / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    ctx.drawImage(img, (size - w) / 2, (size - h) / 2, w, h);
+    return ctx.getImageData(0, 0, size, size);
+};
+
+const toGray = ({ data }: ImageData): Float32Array => {
+    const gray = new Float32Array(data.length / 4);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return gray;
+};
+
+// Perceptual hash: the signs of the lowest DCT frequencies against their median
+const computeHash = (gray: Float32Array, size: number): Uint8Array => {
+    const cos = (k: number, n: number) => Math.cos(((2 * n + 1) * k * Math.PI) / (2 * size));
+    // Separable DCT, rows first, limited to the frequencies the hash uses
+    const rows = new Float32Array(size * HASH_BITS);
+    for (let y = 0; y < size; y++) {
+        for (let u = 0; u < HASH_BITS; u++) {
+            let sum = 0;
+            for (let x = 0; x < size; x++) sum += gray[y * size + x] * cos(u, x);
+            rows[y * HASH_BITS + u] = sum;
+        }
+    }
+    const coefficients: number[] = [];
+    for (let v = 0; v < HASH_BITS; v++) {
+        for (let u = 0; u < HASH_BITS; u++) {
+            let sum = 0;
+            for (let y = 0; y < size; y++) sum += rows[y * HASH_BITS + u] * cos(v, y);
+            coefficients.push(sum);
+        }
+    }
+    // Skip the DC term, it only reflects overall brightness
+    const ac = coefficients.slice(1);
+    const median = [...ac].sort((a, b) => a - b)[Math.floor(ac.length / 2)];
+    return Uint8Array.from(ac, c => c > median ? 1 : 0);
+};
+
+const extractFeatures = (img: HTMLImageElement): FrameFeatures => {
+    const small = drawSmall(img, SIZE);
+    const { data } = small;
+    const background = analyzeBackground(small);
+    const histogram = new Float32Array(HISTOGRAM_BINS ** 3);
+    let area = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        const isForeground = background.kind === 'transparent'
+            ? data[i + 3] > 16
+            : background.kind === 'complex' || Math.hypot(data[i] - background.color[0], data[i + 1] - background.color[1], data[i + 2] - background.color[2]) > FOREGROUND_DISTANCE;
+        if (!isForeground) continue;
+        area++;
+        const bin = (c: number) => Math.min(HISTOGRAM_BINS - 1, Math.floor(c * HISTOGRAM_BINS / 256));
+        histogram[(bin(data[i]) * HISTOGRAM_BINS + bin(data[i + 1])) * HISTOGRAM_BINS + bin(data[i + 2])]++;
+    }
+    if (area > 0) histogram.forEach((count, i) => { histogram[i] = count / area; });
+
+    return {
+        histogram,
+        gray: toGray(small),
+        hash: computeHash(toGray(drawSmall(img, HASH_SIZE)), HASH_SIZE),
+        area: area / (SIZE * SIZE),
+    };
+};
+
+// Bhattacharyya distance between two normalized histograms
+const histogramDistance = (a: Float32Array, b: Float32Array): number => {
+    let coefficient = 0;
+    for (let i = 0; i < a.length; i++) coefficient += Math.sqrt(a[i] * b[i]);
+    return Math.sqrt(Math.max(0, 1 - coefficient));
+};
+
+const hashDistance = (a: Uint8Array, b: Uint8Array): number => {
+    let differing = 0;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) differing++;
+    return differing / a.length;
+};
+
+// Mean SSIM over 8x8 windows with a stride of 4
+const ssim = (a: Float32Array, b: Float32Array): number => {
+    const window = 8;
+    const c1 = (0.01 * 255) ** 2;
+    const c2 = (0.03 * 255) ** 2;
+    let total = 0;
+    let windows = 0;
+    for (let wy = 0; wy + window <= SIZE; wy += 4) {
+        for (let wx = 0; wx + window <= SIZE; wx += 4) {
+            let meanA = 0, meanB = 0;
+            for (let y = wy; y < wy + window; y++) {
+                for (let x = wx; x < wx + window; x++) {
+                    meanA += a[y * SIZE + x];
+                    meanB += b[y * SIZE + x];
+                }
+            }
+            const n = window * window;
+            meanA /= n;
+            meanB /= n;
+            let varA = 0, varB = 0, covariance = 0;
+            for (let y = wy; y < wy + window; y++) {
+                for (let x = wx; x < wx + window; x++) {
+                    const da = a[y * SIZE + x] - meanA;
+                    const db = b[y * SIZE + x] - meanB;
+                    varA += da * da;
+                    varB += db * db;
+                    covariance += da * db;
+                }
+            }
+            varA /= n - 1;
+            varB /= n - 1;
+            covariance /= n - 1;
+            total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) / ((meanA ** 2 + meanB ** 2 + c1) * (varA + varB + c2));
+            windows++;
+        }
+    }
+    return total / windows;
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+// Helper to flag values that stand out from the rest, using the median absolute deviation.
+// `floor` keeps tiny absolute differences from being flagged in very consistent animations.
+const findOutliers = (values: number[], floor: number): boolean[] => {
+    const center = median(values);
+    const deviation = median(values.map(v => Math.abs(v - center))) * 1.4826;
+    return values.map(v => v > floor && (v - center) / Math.max(deviation, 1e-3) > OUTLIER_Z);
+};
+
+const mean = (values: number[]): number => values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const scoreFrames = async (frames: (string | null)[], styleLock: string): Promise<(FrameScore | null)[]> => {
+    const style = extractFeatures(await loadImage(styleLock));
+    const features = await Promise.all(frames.map(async frame => frame ? extractFeatures(await loadImage(frame)) : null));
+
+    const raw = features.map((feature, i) => {
+        if (!feature) return null;
+        const neighbours = [features[i - 1], features[i + 1]].filter((n): n is FrameFeatures => !!n);
+        const neighbourArea = mean(neighbours.map(n => n.area));
+        return {
+            colorVsStyle: histogramDistance(feature.histogram, style.histogram),
+            colorVsNeighbours: mean(neighbours.map(n => histogramDistance(feature.histogram, n.histogram))),
+            ssim: neighbours.length ? mean(neighbours.map(n => ssim(feature.gray, n.gray))) : 1,
+            hashDistance: mean(neighbours.map(n => hashDistance(feature.hash, n.hash))),
+            areaChange: neighbourArea > 0 ? Math.abs(feature.area - neighbourArea) / neighbourArea : 0,
+        };
+    });
+
+    const scored = raw.filter((r): r is NonNullable<typeof r> => r !== null);
+    const checks: { flags: boolean[]; reason: (r: NonNullable<typeof raw[number]>) => string }[] = [
+        { flags: findOutliers(scored.map(r => r.colorVsStyle), 0.15), reason: r => `colours differ from the original image (${r.colorVsStyle.toFixed(2)})` },
+        { flags: findOutliers(scored.map(r => r.colorVsNeighbours), 0.15), reason: r => `colours jump from the neighbouring frames (${r.colorVsNeighbours.toFixed(2)})` },
+        { flags: findOutliers(scored.map(r => 1 - r.ssim), 0.25), reason: r => `low structural similarity to the neighbours (SSIM ${r.ssim.toFixed(2)})` },
+        { flags: findOutliers(scored.map(r => r.hashDistance), 0.2), reason: r => `shape differs from the neighbours (pHash ${r.hashDistance.toFixed(2)})` },
+        { flags: findOutliers(scored.map(r => r.areaChange), 0.12), reason: r => `silhouette area changes by ${Math.round(r.areaChange * 100)}%` },
+    ];
+
+    let scoredIndex = 0;
+    return raw.map(r => {
+        if (!r) return null;
+        const i = scoredIndex++;
+        const reasons = checks.filter(check => check.flags[i]).map(check => check.reason(r));
+        return { ...r, outlier: reasons.length > 0, reasons };
+    });
+};
+
+// Helper to describe a score for a tooltip
+export const formatFrameScore = (score: FrameScore): string => [
+    `Colour vs. original: ${score.colorVsStyle.toFixed(2)}`,
+    `Colour vs. neighbours: ${score.colorVsNeighbours.toFixed(2)}`,
+    `SSIM vs. neighbours: ${score.ssim.toFixed(2)}`,
+    `pHash distance: ${score.hashDistance.toFixed(2)}`,
+    `Silhouette area change: ${Math.round(score.areaChange * 100)}%`,
+    ...(score.outlier ? ['', 'Flagged: ' + score.reasons.join('; ')] : []),
+].join('\n');
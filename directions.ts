@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FrameSlotHistory } from './history';
+import { loadImage } from './images';
+
+// Direction variants for top-down games: the finished animation is redone facing every
+// compass direction. Each direction starts from a turned copy of the animation's first
+// frame and follows the same plan; east/west pairs can be mirrored instead of generated.
+// The result is a direction x frame matrix that is previewed and exported as one sheet.
+
+export type Direction = 'S' | 'SW' | 'W' | 'NW' | 'N' | 'NE' | 'E' | 'SE';
+export type DirectionCount = 4 | 8;
+
+export const DIRECTION_LABELS: Record<Direction, string> = {
+    S: 'South',
+    SW: 'South-west',
+    W: 'West',
+    NW: 'North-west',
+    N: 'North',
+    NE: 'North-east',
+    E: 'East',
+    SE: 'South-east',
+};
+
+// How each direction looks on screen, as the image model is told. South faces the viewer.
+const DIRECTION_DESCRIPTIONS: Record<Direction, string> = {
+    S: 'facing the viewer (south, towards the bottom of the screen)',
+    SW: 'turned three-quarters towards the viewer and to the left of the screen (south-west)',
+    W: 'in profile, facing the left of the screen (west)',
+    NW: 'turned three-quarters away from the viewer and to the left of the screen (north-west)',
+    N: 'facing away from the viewer, seen from behind (north, towards the top of the screen)',
+    NE: 'turned three-quarters away from the viewer and to the right of the screen (north-east)',
+    E: 'in profile, facing the right of the screen (east)',
+    SE: 'turned three-quarters towards the viewer and to the right of the screen (south-east)',
+};
+
+// Directions that are horizontal mirror images of each other.
+const MIRROR_PAIRS: Partial<Record<Direction, Direction>> = { E: 'W', W: 'E', NE: 'NW', NW: 'NE', SE: 'SW', SW: 'SE' };
+const WEST_SIDE: Direction[] = ['W', 'NW', 'SW'];
+
+export interface DirectionSettings {
+    count: DirectionCount;
+    // The direction the finished animation already faces.
+    source: Direction;
+    // Mirror one side of each east/west pair instead of generating it.
+    mirror: boolean;
+}
+
+export const DEFAULT_DIRECTION_SETTINGS: DirectionSettings = { count: 4, source: 'S', mirror: true };
+
+export interface DirectionVariant {
+    direction: Direction;
+    // The turned first pose every frame of the direction is locked to, once generated.
+    baseFrame: string | null;
+    frameHistory: (FrameSlotHistory | null)[];
+    frameErrors: (string | null)[];
+    // Set when the direction was mirrored from another rather than generated.
+    mirroredFrom: Direction | null;
+}
+
+// Every direction of the mode, in the usual sheet row order (clockwise from south).
+export const getDirections = (count: DirectionCount): Direction[] =>
+    count === 8 ? ['S', 'SW', 'W', 'NW', 'N', 'NE', 'E', 'SE'] : ['S', 'W', 'N', 'E'];
+
+export const describeDirection = (direction: Direction): string => DIRECTION_DESCRIPTIONS[direction];
+
+// Helper to find the direction a direction is mirrored from, or null when it is generated.
+// The side the source animation faces is always generated, so it is never mirrored.
+export const getMirrorSource = (direction: Direction, settings: DirectionSettings): Direction | null => {
+    const partner = MIRROR_PAIRS[direction];
+    if (!settings.mirror || !partner || direction === settings.source) return null;
+    if (partner === settings.source) return partner;
+    const sourceOnWest = WEST_SIDE.includes(settings.source);
+    return WEST_SIDE.includes(direction) !== sourceOnWest ? partner : null;
+};
+
+// Helper to add the facing direction to every pose of a plan, so the same plan can be redone
+// facing another way. The direction goes in the notes, which the first and last frame prompts
+// include in full; in-between prompts only list changed parts, so they name it separately.
+export const adjustPlanForDirection = (plan: Record<string, string>[], direction: Direction): Record<string, string>[] =>
+    plan.map(pose => ({
+        ...pose,
+        notes: `Seen ${describeDirection(direction)}; every part is described as the character sees it. ${pose.notes ?? ''}`.trim(),
+    }));
+
+// Helper to flip a frame horizontally
+export const mirrorFrame = async (dataUrl: string): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas to mirror the frame.');
+    ctx.setTransform(-1, 0, 0, 1, canvas.width, 0);
+    ctx.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,436 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A small, dependency-free animated GIF (GIF89a) encoder and decoder that runs in the
+// browser. Every encoded frame gets its own median-cut palette so colour shifts between
+// frames don't starve each other of palette entries. The decoder is used to read
+// uploaded motion references.
+
+export interface GifEncodeOptions {
+    // Display time of each frame in milliseconds. GIF stores it in 1/100 s.
+    delaysMs: number[];
+    // Loop forever when true, play once when false.
+    loop: boolean;
+    // Map (mostly) transparent pixels to a transparent palette entry.
+    transparent: boolean;
+}
+
+// Pixels with alpha below this value are written as fully transparent.
+const ALPHA_THRESHOLD = 128;
+const MAX_LZW_CODE = 4096;
+
+// Helper to reduce an RGB colour to a 15-bit histogram key (5 bits per channel)
+const colorKey = (r: number, g: number, b: number): number => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface Quantized {
+    palette: [number, number, number][];
+    indices: Uint8Array;
+    transparentIndex: number;
+}
+
+// Median-cut quantization over a 15-bit colour histogram.
+const quantizeFrame = (frame: ImageData, transparent: boolean): Quantized => {
+    const { data } = frame;
+    const pixelCount = frame.width * frame.height;
+    const counts = new Uint32Array(32768);
+    const sumR = new Float64Array(32768);
+    const sumG = new Float64Array(32768);
+    const sumB = new Float64Array(32768);
+
+    for (let i = 0; i < pixelCount; i++) {
+        const o = i * 4;
+        if (transparent && data[o + 3] < ALPHA_THRESHOLD) continue;
+        const key = colorKey(data[o], data[o + 1], data[o + 2]);
+        counts[key]++;
+        sumR[key] += data[o];
+        sumG[key] += data[o + 1];
+        sumB[key] += data[o + 2];
+    }
+
+    const keys: number[] = [];
+    for (let key = 0; key < counts.length; key++) {
+        if (counts[key] > 0) keys.push(key);
+    }
+
+    const maxColors = transparent ? 255 : 256;
+    const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+    const boxes: number[][] = keys.length > 0 ? [keys] : [];
+
+    while (boxes.length < maxColors) {
+        // Split the box with the widest channel range, weighted by how many pixels it holds.
+        let bestBox = -1;
+        let bestScore = 0;
+        let bestChannel = 0;
+        boxes.forEach((box, boxIndex) => {
+            if (box.length < 2) return;
+            let population = 0;
+            for (const key of box) population += counts[key];
+            for (let c = 0; c < 3; c++) {
+                let min = 31;
+                let max = 0;
+                for (const key of box) {
+                    const v = channel(key, c);
+                    if (v < min) min = v;
+                    if (v > max) max = v;
+                }
+                const score = (max - min) * population;
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestBox = boxIndex;
+                    bestChannel = c;
+                }
+            }
+        });
+        if (bestBox === -1) break;
+
+        const box = boxes[bestBox].sort((a, b) => channel(a, bestChannel) - channel(b, bestChannel));
+        let population = 0;
+        for (const key of box) population += counts[key];
+        let running = 0;
+        let splitAt = 1;
+        for (let i = 0; i < box.length - 1; i++) {
+            running += counts[box[i]];
+            if (running >= population / 2) {
+                splitAt = i + 1;
+                break;
+            }
+            splitAt = i + 1;
+        }
+        boxes.splice(bestBox, 1, box.slice(0, splitAt), box.slice(splitAt));
+    }
+
+    const palette: [number, number, number][] = [];
+    const transparentIndex = transparent ? 0 : -1;
+    if (transparent) palette.push([0, 0, 0]);
+
+    const keyToIndex = new Int16Array(32768).fill(-1);
+    boxes.forEach(box => {
+        let n = 0, r = 0, g = 0, b = 0;
+        for (const key of box) {
+            n += counts[key];
+            r += sumR[key];
+            g += sumG[key];
+            b += sumB[key];
+        }
+        const index = palette.length;
+        palette.push([Math.round(r / n), Math.round(g / n), Math.round(b / n)]);
+        for (const key of box) keyToIndex[key] = index;
+    });
+    if (palette.length === 0) palette.push([0, 0, 0]);
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        const o = i * 4;
+        if (transparent && data[o + 3] < ALPHA_THRESHOLD) {
+            indices[i] = transparentIndex;
+            continue;
+        }
+        indices[i] = Math.max(0, keyToIndex[colorKey(data[o], data[o + 1], data[o + 2])]);
+    }
+
+    return { palette, indices, transparentIndex };
+};
+
+// Variable-length-code LZW as used by GIF, packed into 255-byte sub-blocks.
+const lzwEncode = (indices: Uint8Array, minCodeSize: number, out: number[]) => {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let nextCode = endCode + 1;
+    let codeSize = minCodeSize + 1;
+    let table = new Map<number, number>();
+
+    const bytes: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const writeCode = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            bytes.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    writeCode(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const existing = table.get(key);
+        if (existing !== undefined) {
+            prefix = existing;
+            continue;
+        }
+        writeCode(prefix);
+        if (nextCode === MAX_LZW_CODE) {
+            writeCode(clearCode);
+            nextCode = endCode + 1;
+            codeSize = minCodeSize + 1;
+            table = new Map();
+        } else {
+            if (nextCode >= (1 << codeSize)) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = k;
+    }
+    writeCode(prefix);
+    writeCode(endCode);
+    if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+    out.push(minCodeSize);
+    for (let i = 0; i < bytes.length; i += 255) {
+        const block = bytes.slice(i, i + 255);
+        out.push(block.length, ...block);
+    }
+    out.push(0);
+};
+
+const writeUint16 = (out: number[], value: number) => {
+    out.push(value & 0xff, (value >> 8) & 0xff);
+};
+
+// Encodes equally sized frames into an animated GIF.
+export const encodeGif = (frames: ImageData[], options: GifEncodeOptions): Uint8Array => {
+    if (frames.length === 0) throw new Error('Cannot encode a GIF without frames.');
+    const { width, height } = frames[0];
+    const out: number[] = [];
+
+    // Header and logical screen descriptor (no global colour table).
+    for (const c of 'GIF89a') out.push(c.charCodeAt(0));
+    writeUint16(out, width);
+    writeUint16(out, height);
+    out.push(0x70, 0, 0);
+
+    if (options.loop) {
+        out.push(0x21, 0xff, 0x0b);
+        for (const c of 'NETSCAPE2.0') out.push(c.charCodeAt(0));
+        out.push(0x03, 0x01);
+        writeUint16(out, 0); // 0 = loop forever
+        out.push(0);
+    }
+
+    frames.forEach((frame, frameIndex) => {
+        if (frame.width !== width || frame.height !== height) {
+            throw new Error('All GIF frames must have the same size.');
+        }
+        const { palette, indices, transparentIndex } = quantizeFrame(frame, options.transparent);
+
+        let tableBits = 1;
+        while ((1 << tableBits) < palette.length) tableBits++;
+
+        // Graphic control extension. Restore to background between transparent frames so they don't pile up.
+        const disposal = options.transparent ? 2 : 1;
+        out.push(0x21, 0xf9, 0x04, (disposal << 2) | (transparentIndex >= 0 ? 1 : 0));
+        writeUint16(out, Math.max(2, Math.round((options.delaysMs[frameIndex] ?? 100) / 10)));
+        out.push(Math.max(0, transparentIndex), 0);
+
+        // Image descriptor with a local colour table.
+        out.push(0x2c);
+        writeUint16(out, 0);
+        writeUint16(out, 0);
+        writeUint16(out, width);
+        writeUint16(out, height);
+        out.push(0x80 | (tableBits - 1));
+        for (let i = 0; i < (1 << tableBits); i++) {
+            const [r, g, b] = palette[i] ?? [0, 0, 0];
+            out.push(r, g, b);
+        }
+
+        lzwEncode(indices, Math.max(2, tableBits), out);
+    });
+
+    out.push(0x3b);
+    return Uint8Array.from(out);
+};
+
+export interface DecodedGif {
+    width: number;
+    height: number;
+    // Every frame composited onto the full canvas, as it is shown when played.
+    frames: { image: ImageData; delayMs: number }[];
+}
+
+// Helper to decode one LZW-compressed image into palette indices
+const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+    const output = new Uint8Array(pixelCount);
+    const prefix = new Int16Array(MAX_LZW_CODE);
+    const suffix = new Uint8Array(MAX_LZW_CODE);
+    const stack = new Uint8Array(MAX_LZW_CODE + 1);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let previous = -1;
+    let first = 0;
+    let bits = 0;
+    let bitCount = 0;
+    let written = 0;
+
+    for (let i = 0; i < data.length && written < pixelCount; i++) {
+        bits |= data[i] << bitCount;
+        bitCount += 8;
+        while (bitCount >= codeSize && written < pixelCount) {
+            const code = bits & ((1 << codeSize) - 1);
+            bits >>= codeSize;
+            bitCount -= codeSize;
+
+            if (code === clearCode) {
+                codeSize = minCodeSize + 1;
+                nextCode = endCode + 1;
+                previous = -1;
+                continue;
+            }
+            if (code === endCode) return output;
+            if (previous === -1) {
+                output[written++] = suffix[code];
+                previous = code;
+                first = suffix[code];
+                continue;
+            }
+
+            // A code not in the table yet is the previous string plus its own first byte.
+            let top = 0;
+            let current = code;
+            if (code >= nextCode) {
+                stack[top++] = first;
+                current = previous;
+            }
+            while (current >= clearCode) {
+                stack[top++] = suffix[current];
+                current = prefix[current];
+            }
+            first = suffix[current];
+            stack[top++] = first;
+            while (top > 0 && written < pixelCount) output[written++] = stack[--top];
+
+            if (nextCode < MAX_LZW_CODE) {
+                prefix[nextCode] = previous;
+                suffix[nextCode] = first;
+                nextCode++;
+                if (nextCode === (1 << codeSize) && codeSize < 12) codeSize++;
+            }
+            previous = code;
+        }
+    }
+    return output;
+};
+
+// Decodes an animated (or still) GIF into fully composited frames.
+export const decodeGif = (bytes: Uint8Array): DecodedGif => {
+    const header = String.fromCharCode(...bytes.subarray(0, 6));
+    if (header !== 'GIF87a' && header !== 'GIF89a') throw new Error('The file is not a GIF.');
+    const readUint16 = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+
+    const width = readUint16(6);
+    const height = readUint16(8);
+    const screenFlags = bytes[10];
+    let pos = 13;
+    const readPalette = (size: number): Uint8Array => {
+        const palette = bytes.subarray(pos, pos + size * 3);
+        pos += size * 3;
+        return palette;
+    };
+    const globalPalette = screenFlags & 0x80 ? readPalette(1 << ((screenFlags & 7) + 1)) : null;
+    const readSubBlocks = (): Uint8Array => {
+        const chunks: Uint8Array[] = [];
+        let length = 0;
+        while (pos < bytes.length && bytes[pos] !== 0) {
+            const size = bytes[pos];
+            chunks.push(bytes.subarray(pos + 1, pos + 1 + size));
+            length += size;
+            pos += size + 1;
+        }
+        pos++;
+        const joined = new Uint8Array(length);
+        let offset = 0;
+        for (const chunk of chunks) {
+            joined.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return joined;
+    };
+
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    const frames: DecodedGif['frames'] = [];
+    let delayMs = 100;
+    let disposal = 0;
+    let transparentIndex = -1;
+
+    while (pos < bytes.length) {
+        const block = bytes[pos++];
+        if (block === 0x3b) break;
+        if (block === 0x21) {
+            const label = bytes[pos++];
+            if (label === 0xf9) {
+                const flags = bytes[pos + 1];
+                disposal = (flags >> 2) & 7;
+                // Browsers play delays under 20 ms at 100 ms, so do the same.
+                const delay = readUint16(pos + 2) * 10;
+                delayMs = delay < 20 ? 100 : delay;
+                transparentIndex = flags & 1 ? bytes[pos + 4] : -1;
+            }
+            readSubBlocks();
+            continue;
+        }
+        if (block !== 0x2c) throw new Error('The GIF is damaged.');
+
+        const left = readUint16(pos);
+        const top = readUint16(pos + 2);
+        const frameWidth = readUint16(pos + 4);
+        const frameHeight = readUint16(pos + 6);
+        const flags = bytes[pos + 8];
+        pos += 9;
+        const palette = flags & 0x80 ? readPalette(1 << ((flags & 7) + 1)) : globalPalette;
+        if (!palette) throw new Error('The GIF has no colour table.');
+        const minCodeSize = bytes[pos++];
+        const indices = lzwDecode(readSubBlocks(), minCodeSize, frameWidth * frameHeight);
+
+        // Interlaced images store every 8th row first, then the rows in between.
+        const rows: number[] = [];
+        if (flags & 0x40) {
+            for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+                for (let y = start; y < frameHeight; y += step) rows.push(y);
+            }
+        } else {
+            for (let y = 0; y < frameHeight; y++) rows.push(y);
+        }
+
+        const previous = disposal === 3 ? canvas.slice() : null;
+        rows.forEach((y, row) => {
+            const cy = top + y;
+            if (cy >= height) return;
+            for (let x = 0; x < frameWidth; x++) {
+                const cx = left + x;
+                if (cx >= width) continue;
+                const index = indices[row * frameWidth + x];
+                if (index === transparentIndex) continue;
+                const o = (cy * width + cx) * 4;
+                canvas[o] = palette[index * 3];
+                canvas[o + 1] = palette[index * 3 + 1];
+                canvas[o + 2] = palette[index * 3 + 2];
+                canvas[o + 3] = 255;
+            }
+        });
+        frames.push({ image: new ImageData(canvas.slice(), width, height), delayMs });
+
+        if (disposal === 2) {
+            for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+                canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+            }
+        } else if (previous) {
+            canvas.set(previous);
+        }
+        delayMs = 100;
+        disposal = 0;
+        transparentIndex = -1;
+    }
+
+    if (frames.length === 0) throw new Error('The GIF has no frames.');
+    return { width, height, frames };
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Per-frame version history. Every frame slot keeps all images that were ever produced
+// for it (the original generation plus each correction) and which one is active.
+// Undo/redo works on the whole animation by recording which version each slot showed
+// before and after an action.
+
+// 'keyframe' versions are artist-drawn images uploaded into a slot; they are never regenerated.
+export type FrameVersionSource = 'generation' | 'correction' | 'processing' | 'keyframe';
+
+export interface FrameVersion {
+    image: string;
+    source: FrameVersionSource;
+    // Short, human readable description of what produced this version.
+    label: string;
+    // The full prompt sent to the image model.
+    prompt: string;
+    cost: number;
+    createdAt: string;
+}
+
+export interface FrameSlotHistory {
+    versions: FrameVersion[];
+    active: number;
+}
+
+export interface VersionChange {
+    index: number;
+    before: number;
+    after: number;
+}
+
+export interface HistoryAction {
+    label: string;
+    changes: VersionChange[];
+}
+
+// Helper to append a version to a slot and make it the active one
+export const addVersion = (history: (FrameSlotHistory | null)[], index: number, version: FrameVersion): (FrameSlotHistory | null)[] => {
+    const next = [...history];
+    const versions = [...(next[index]?.versions ?? []), version];
+    next[index] = { versions, active: versions.length - 1 };
+    return next;
+};
+
+// Helper to switch the active version of several slots at once
+export const setActiveVersions = (history: (FrameSlotHistory | null)[], changes: { index: number; active: number }[]): (FrameSlotHistory | null)[] => {
+    const next = [...history];
+    changes.forEach(({ index, active }) => {
+        const slot = next[index];
+        if (slot && active >= 0 && active < slot.versions.length) {
+            next[index] = { ...slot, active };
+        }
+    });
+    return next;
+};
+
+// Helper to get the image each slot currently shows
+export const getActiveFrames = (history: (FrameSlotHistory | null)[]): (string | null)[] =>
+    history.map(slot => slot ? slot.versions[slot.active].image : null);
+
+// Helper to give a slot with no recorded history a single version, e.g. for frames from an older project file
+export const createInitialHistory = (frames: (string | null)[]): (FrameSlotHistory | null)[] =>
+    frames.map(image => image ? {
+        versions: [{ image, source: 'generation', label: 'Generated', prompt: '', cost: 0, createdAt: new Date().toISOString() }],
+        active: 0,
+    } : null);
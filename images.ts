@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Canvas helpers shared by the exporters, providers and image post-processing.
+
+// Helper to load a data URL into an image element
+export const loadImage = (dataUrl: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load frame image.'));
+    img.src = dataUrl;
+});
+
+// Helper to decode frames into pixel data. Frames are scaled to the size of the first one,
+// since the model does not always return every frame at the same resolution.
+export const framesToImageData = async (frames: string[]): Promise<ImageData[]> => {
+    const images = await Promise.all(frames.map(loadImage));
+    const width = images[0].naturalWidth;
+    const height = images[0].naturalHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not create a canvas to read the frames.');
+
+    return images.map(img => {
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(img, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    });
+};
+
+// Helper to read an uploaded file as a data URL, keeping its pixels exactly as they are
+export const fileToDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the file.'));
+    reader.readAsDataURL(file);
+});
+
+// Helper to encode a canvas as a PNG blob
+export const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the canvas as PNG.')), 'image/png');
+});
+
+// Helper to decode a single data URL into pixel data at its natural size
+export const dataUrlToImageData = async (dataUrl: string): Promise<ImageData> => (await framesToImageData([dataUrl]))[0];
+
+// Helper to encode pixel data as a PNG data URL
+export const imageDataToDataUrl = (image: ImageData): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas to encode the frame.');
+    ctx.putImageData(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Helper to draw a small PNG thumbnail of an image, fitted without distortion
+export const createThumbnail = async (dataUrl: string, size: number): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const scale = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas for the thumbnail.');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
@@ -4,32 +4,177 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Modality, Type } from '@google/genai';
+import { Schema, Type } from '@google/genai';
 import JSZip from 'jszip';
+import { encodeGif } from './gif';
+import { encodeApng } from './apng';
+import { encodeAnimatedWebp } from './webp';
+import { ProjectState, saveProject, loadProject, PROJECT_FILE_EXTENSION } from './project';
+import { buildSpriteSheet, buildAtlasJson, getFrameFileName, SpriteSheetLayout, AtlasFormat } from './spritesheet';
+import { loadImage, framesToImageData, canvasToPngBlob, dataUrlToImageData, imageDataToDataUrl, fileToDataUrl, createThumbnail } from './images';
+import {
+    BackgroundInfo,
+    BackgroundSettings,
+    BackdropMode,
+    BACKDROP_LABELS,
+    DEFAULT_BACKGROUND_SETTINGS,
+    analyzeBackground,
+    cleanUpBackground,
+    rgbToHex,
+} from './background';
+import {
+    Checkpoint, SessionRef, SessionSummary, saveCheckpoint, loadCheckpoint, clearCheckpoint,
+    createSessionId, saveSession, listSessions, loadSession, deleteSessions, getStorageEstimate,
+} from './storage';
+import {
+    OnionSkinSettings,
+    DEFAULT_ONION_SKIN_SETTINGS,
+    MAX_ONION_SKIN_FRAMES,
+    getOnionSkinLayers,
+    renderOnionSkin,
+} from './onionskin';
+import { FrameScore, scoreFrames, formatFrameScore } from './consistency';
+import {
+    AlignmentMode,
+    AlignmentSettings,
+    FrameTransform,
+    ALIGNMENT_MODE_LABELS,
+    DEFAULT_ALIGNMENT_SETTINGS,
+    alignFrames,
+} from './alignment';
+import {
+    Timeline,
+    PlaybackMode,
+    PLAYBACK_MODE_LABELS,
+    MIN_FRAME_DURATION_MS,
+    createTimeline,
+    normalizeTimeline,
+    insertSlots,
+    getEntryDuration,
+    getPlaybackSequence,
+    getSequenceSlots,
+    isLoopingMode,
+    moveEntry,
+    duplicateEntry,
+    removeEntry,
+    setEntryDuration,
+    buildTimingManifest,
+} from './timeline';
+import {
+    FrameSlotHistory,
+    HistoryAction,
+    VersionChange,
+    addVersion,
+    setActiveVersions,
+    getActiveFrames,
+    createInitialHistory,
+} from './history';
+import {
+    ImageEditRequest,
+    ImageEditResponse,
+    PlanRequest,
+    PlanResponse,
+    ProviderKind,
+    ProviderSettings,
+    Recording,
+    RecordedCall,
+    DEFAULT_PROVIDER_SETTINGS,
+    PROVIDER_LABELS,
+    createGeminiProvider,
+    createMockProvider,
+    createRecordingProvider,
+    createReplayProvider,
+    getModelName,
+    parseRecording,
+} from './providers';
+import {
+    BudgetAction,
+    BudgetExceededError,
+    BudgetSettings,
+    CallPurpose,
+    CALL_PURPOSE_LABELS,
+    DEFAULT_BUDGET_SETTINGS,
+    DEFAULT_PRICING,
+    LedgerEntry,
+    ModelPricing,
+    PricingTable,
+    estimateImageCallCost,
+    estimatePlanCallCost,
+    getCallCost,
+    ledgerToCsv,
+} from './ledger';
+import {
+    RigKind,
+    RigSettings,
+    DEFAULT_RIG_SETTINGS,
+    RIG_LABELS,
+    describeRig,
+    diffPoses,
+    formatCustomParts,
+    getPoseProperties,
+    interpolatePose,
+    parseCustomParts,
+} from './rig';
+import {
+    AnimationSet,
+    SetAction,
+    createGameCharacterSet,
+    createSetAction,
+    getAnimationNames,
+} from './animset';
+import { loadReference } from './reference';
+import {
+    Direction,
+    DirectionCount,
+    DirectionSettings,
+    DirectionVariant,
+    DEFAULT_DIRECTION_SETTINGS,
+    DIRECTION_LABELS,
+    adjustPlanForDirection,
+    describeDirection,
+    getDirections,
+    getMirrorSource,
+    mirrorFrame,
+} from './directions';
+import {
+    PixelArtSettings,
+    PixelGrid,
+    DEFAULT_PIXEL_ART_SETTINGS,
+    analyzePixelGrid,
+    downscaleNearest,
+    prepareSprite,
+    snapToPixelGrid,
+} from './pixelart';
+import { ReferenceSheetImage, ReferenceView, REFERENCE_VIEW_LABELS, describeReferenceSheet, getSheetImages, guessReferenceView } from './refsheet';
 
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const NUM_FRAMES = 9;
+const DEFAULT_NUM_FRAMES = 9;
+const MIN_NUM_FRAMES = 4;
+const MAX_NUM_FRAMES = 48;
+const MAX_FPS = 20;
 
-// Pricing constants based on published Google AI prices as of mid-2024.
-// These are for estimation purposes only.
-const GEMINI_FLASH_INPUT_PRICE_PER_MILLION_TOKENS = 0.35;
-const GEMINI_FLASH_OUTPUT_PRICE_PER_MILLION_TOKENS = 0.70;
-const IMAGE_GENERATION_PRICE_PER_IMAGE = 0.018; 
+// How long each of the two frames is shown in flip mode.
+const FLIP_INTERVAL_MS = 250;
 
+// Gallery sessions are saved once the run has been unchanged for this long.
+const SESSION_SAVE_DELAY_MS = 1500;
+const SESSION_THUMBNAIL_SIZE = 128;
 
-// Helper to convert a data URL string to a GoogleGenAI.Part
-const dataUrlToGenerativePart = (dataUrl: string): { inlineData: { data: string; mimeType: string; } } => {
-    const [header, data] = dataUrl.split(',');
-    const mimeType = header.match(/:(.*?);/)?.[1] ?? 'image/png';
-    return {
-        inlineData: { data, mimeType }
-    };
+
+// Helper to trigger a browser download for a blob
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
 };
 
-// Helper to check if a canvas has a transparent background by checking corner pixels
+// Helper to check if a canvas has a transparent background by checking its whole border
 const checkTransparency = (canvas: HTMLCanvasElement): boolean => {
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return false;
@@ -37,91 +182,354 @@ const checkTransparency = (canvas: HTMLCanvasElement): boolean => {
     const { width, height } = canvas;
     if (width === 0 || height === 0) return false;
 
-    const pixelDataTL = ctx.getImageData(0, 0, 1, 1).data;
-    const pixelDataTR = ctx.getImageData(width - 1, 0, 1, 1).data;
-    const pixelDataBL = ctx.getImageData(0, height - 1, 1, 1).data;
-    const pixelDataBR = ctx.getImageData(width - 1, height - 1, 1, 1).data;
+    return analyzeBackground(ctx.getImageData(0, 0, width, height)).kind === 'transparent';
+};
 
-    // Check if alpha channel (4th byte) is 0 for all corners
-    return pixelDataTL[3] === 0 && pixelDataTR[3] === 0 && pixelDataBL[3] === 0 && pixelDataBR[3] === 0;
+// Helper to build the planner's response schema for a plan of `count` frames posed by `rig`
+const buildPlanSchema = (count: number, rig: RigSettings): Schema => {
+    const properties = getPoseProperties(rig);
+    return {
+        type: Type.ARRAY,
+        minItems: String(count),
+        maxItems: String(count),
+        items: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(Object.entries(properties).map(([key, description]) => [key, { type: Type.STRING, description }])),
+            required: Object.keys(properties),
+        },
+    };
 };
 
-// Helper to compare two pose objects and identify changed parts
-const diffPoses = (poseA: Record<string, string>, poseB: Record<string, string>): { changedParts: string[]; unchangedParts: string[] } => {
-    const changedParts: string[] = [];
-    const unchangedParts: string[] = [];
-    if (!poseA || !poseB) return { changedParts, unchangedParts };
+const getCyclicText = (isCyclic: boolean): string => isCyclic
+    ? "The animation should loop seamlessly, so the last frame should lead smoothly back into the first."
+    : "The animation has a distinct start and end.";
 
-    const allKeys = new Set([...Object.keys(poseA), ...Object.keys(poseB)]);
+const getBackgroundInstruction = (hasTransparency: boolean): string => hasTransparency
+    ? "The background MUST be perfectly transparent."
+    : "The background of the generated image MUST perfectly match the background of the provided keyframes. Do not alter the background.";
 
-    for (const key of allKeys) {
-        // We only care about the actual pose keys, not metadata
-        if (key === 'notes') continue; 
-        
-        if (poseA[key] !== poseB[key]) {
-            changedParts.push(key);
-        } else {
-            unchangedParts.push(key);
-        }
+// Helper to write the planner prompt for a new plan of `count` frames. With a motion
+// reference, the prompt is sent along with `referenceCount` reference frames.
+const buildPlannerPrompt = (request: string, count: number, isCyclic: boolean, rig: RigSettings, referenceCount = 0): string => `
+You are a master animator and puppeteer acting as a meticulous director for a motion photoshoot. A user wants to create a ${count}-frame animation.
+User's request: "${request}"
+${getCyclicText(isCyclic)}
+${referenceCount > 0 ? `
+**MOTION REFERENCE:** You are given ${referenceCount} reference images, in order. They are frames sampled from a clip showing the movement to animate. Frame N of your plan MUST match the pose, timing and body mechanics of reference image N. The reference may show a different character or style; take only the motion from it, and describe it in terms of the parts below.
+` : ''}
+Your task is to create a detailed, frame-by-frame animation plan. This plan will define the precise pose of a character for ${count} frames.
+Focus *only* on the character's pose, position, and expression for each specific frame.
+
+The character is posed by these parts:
+${describeRig(rig)}
+
+**CRITICAL RULE:** The character's core appearance, art style, colors, proportions, and accessories (like sunglasses) MUST remain consistent across all frames. DO NOT change the facial expression unless the user's prompt *specifically* requests it (e.g., "looking surprised"). You are directing a model, not redesigning a character.
+
+Output your response as a JSON array of objects. Each object represents one frame and must contain the following keys: ${Object.keys(getPoseProperties(rig)).map(key => `"${key}"`).join(', ')}.
+The values should be detailed string descriptions of the position and rotation of each part. Be extremely specific to ensure a smooth, logical, and believable progression of movement. The array must contain exactly ${count} elements.
+`;
+
+// A single in-between generation: fill `index` using the frames at `start` and `end`.
+type InBetweenTask = { start: number; end: number; index: number };
+
+// Helper to order the in-between frames for any frame count. The first and last frames, plus any
+// `fixed` keyframe slots, are the keyframes; every other slot is filled by repeatedly bisecting
+// the gaps between finished frames. Each level only depends on the levels before it, so the
+// tasks in a level can run in parallel.
+const buildInBetweenSchedule = (numFrames: number, fixed: number[] = []): InBetweenTask[][] => {
+    const levels: InBetweenTask[][] = [];
+    const keys = [...new Set([0, ...fixed.filter(i => i > 0 && i < numFrames - 1), numFrames - 1])].sort((a, b) => a - b);
+    let ranges: [number, number][] = keys.slice(1).map((end, i) => [keys[i], end]);
+
+    while (ranges.length > 0) {
+        const level: InBetweenTask[] = [];
+        const nextRanges: [number, number][] = [];
+        ranges.forEach(([start, end]) => {
+            if (end - start < 2) return;
+            const index = Math.floor((start + end) / 2);
+            level.push({ start, end, index });
+            nextRanges.push([start, index], [index, end]);
+        });
+        if (level.length > 0) levels.push(level);
+        ranges = nextRanges;
     }
-    return { changedParts, unchangedParts };
+    return levels;
+};
+
+// Helper to pick a roughly square column count for the frame grid
+const getGridColumns = (numFrames: number): number => Math.min(8, Math.max(3, Math.ceil(Math.sqrt(numFrames))));
+
+// A corrected frame returned by the correction modal, with what produced it.
+type FrameUpdate = { index: number; frame: string; prompt: string; label: string; cost: number };
+
+// What a generation run works from, and what it left behind.
+type GenerationRun = {
+    framePrompts: Record<string, string>[];
+    isCyclic: boolean;
+    styleLock: string | null;
+    // Labelled views of the character, sent with the style lock
+    referenceSheet?: ReferenceSheetImage[];
+    // User-drawn images for some slots, used as fixed keyframes
+    keyframes?: (string | null)[];
+    // The direction the character faces in a direction variant
+    facing?: Direction;
+    // Receives the frames as they are generated, for a run that fills something other than
+    // the main view (a direction variant). The main view is then left alone.
+    onFrames?: (history: (FrameSlotHistory | null)[], errors: (string | null)[]) => void;
+    // The button that picks the run up where it stopped, as named in its messages
+    resumeLabel?: string;
+};
+type GenerationResult = { history: (FrameSlotHistory | null)[]; errors: (string | null)[]; complete: boolean };
+
+// An image call that went through the cost ledger, with what it cost.
+type MeteredImageResponse = ImageEditResponse & { cost: number };
+
+
+// Hook that alternates between false and true while `active`, for flipping between two frames
+const useFlip = (active: boolean): boolean => {
+    const [flipped, setFlipped] = useState(false);
+    useEffect(() => {
+        setFlipped(false);
+        if (!active) return;
+        const interval = setInterval(() => setFlipped(prev => !prev), FLIP_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [active]);
+    return flipped;
+};
+
+// A frame with its onion-skin ghosts, drawn on a canvas
+const OnionSkinFrame = ({
+    frames,
+    index,
+    settings,
+    wrap,
+    className,
+}: {
+    frames: (string | null)[];
+    index: number;
+    settings: OnionSkinSettings;
+    wrap: boolean;
+    className: string;
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const frame = frames[index];
+
+    useEffect(() => {
+        if (!frame) return;
+        let cancelled = false;
+        renderOnionSkin(frame, getOnionSkinLayers(frames, index, settings, wrap))
+            .then(rendered => {
+                const canvas = canvasRef.current;
+                if (cancelled || !canvas) return;
+                canvas.width = rendered.width;
+                canvas.height = rendered.height;
+                canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+            })
+            .catch(err => console.error("Failed to draw onion skin.", err));
+        return () => { cancelled = true; };
+    }, [frames, index, settings, wrap]);
+
+    if (!frame) return null;
+    return <canvas ref={canvasRef} className={className} role="img" aria-label={`Frame ${index + 1} with onion skin`} />;
+};
+
+const OnionSkinControls = ({ settings, onChange }: { settings: OnionSkinSettings; onChange: (settings: OnionSkinSettings) => void; }) => {
+    const update = (changes: Partial<OnionSkinSettings>) => onChange({ ...settings, ...changes });
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-pink-600 focus:ring-pink-600 focus:ring-offset-gray-800"
+                />
+                Onion skin
+            </label>
+            <label className="flex items-center gap-1">
+                <input type="color" value={settings.pastColor} onChange={(e) => update({ pastColor: e.target.value })} className="h-6 w-6 cursor-pointer bg-transparent" aria-label="Colour of previous frames" />
+                Prev
+                <input
+                    type="number"
+                    min={0}
+                    max={MAX_ONION_SKIN_FRAMES}
+                    value={settings.before}
+                    onChange={(e) => update({ before: Math.max(0, Math.min(MAX_ONION_SKIN_FRAMES, Number(e.target.value))) })}
+                    className="w-12 rounded-md border-0 bg-gray-700 py-0.5 px-1 text-white ring-1 ring-inset ring-gray-600"
+                    aria-label="Number of previous frames"
+                />
+            </label>
+            <label className="flex items-center gap-1">
+                <input type="color" value={settings.futureColor} onChange={(e) => update({ futureColor: e.target.value })} className="h-6 w-6 cursor-pointer bg-transparent" aria-label="Colour of next frames" />
+                Next
+                <input
+                    type="number"
+                    min={0}
+                    max={MAX_ONION_SKIN_FRAMES}
+                    value={settings.after}
+                    onChange={(e) => update({ after: Math.max(0, Math.min(MAX_ONION_SKIN_FRAMES, Number(e.target.value))) })}
+                    className="w-12 rounded-md border-0 bg-gray-700 py-0.5 px-1 text-white ring-1 ring-inset ring-gray-600"
+                    aria-label="Number of next frames"
+                />
+            </label>
+            <label className="flex items-center gap-2">
+                Opacity
+                <input
+                    type="range"
+                    min="0.05"
+                    max="1"
+                    step="0.05"
+                    value={settings.opacity}
+                    onChange={(e) => update({ opacity: Number(e.target.value) })}
+                    className="w-24 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                    aria-label="Onion skin opacity"
+                />
+            </label>
+        </div>
+    );
 };
 
 
-const AnimationPlayer = ({ frames, fps }: { frames: (string | null)[]; fps: number; }) => {
-    const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
+const AnimationPlayer = ({
+    frames,
+    beforeFrames,
+    referenceFrames,
+    timeline,
+    fps,
+    onionSkin,
+    onOnionSkinChange,
+}: {
+    frames: (string | null)[];
+    // The frames before alignment, shown next to the aligned ones on request.
+    beforeFrames?: (string | null)[];
+    // A motion reference, shown next to the result for comparison.
+    referenceFrames?: string[];
+    timeline: Timeline;
+    fps: number;
+    onionSkin: OnionSkinSettings;
+    onOnionSkinChange: (settings: OnionSkinSettings) => void;
+}) => {
+    const [showBefore, setShowBefore] = useState(false);
+    const [showReference, setShowReference] = useState(true);
+    const [currentStep, setCurrentStep] = useState(0);
     const [isPlaying, setIsPlaying] = useState(true);
+    const [isFlipping, setIsFlipping] = useState(false);
+    const [flipFrames, setFlipFrames] = useState<[number, number]>([0, 1]);
+    const flipped = useFlip(isFlipping);
+    const sequence = useMemo(() => getPlaybackSequence(timeline, fps), [timeline, fps]);
+    const step = Math.min(currentStep, sequence.length - 1);
 
+    // Every step is shown for its own duration, so timing is driven by a timeout per step
     useEffect(() => {
-        if (!isPlaying) return;
+        if (!isPlaying || isFlipping || sequence.length === 0) return;
 
-        const intervalDuration = 1000 / fps;
-        const interval = setInterval(() => {
-            setCurrentFrameIndex((prevIndex) => (prevIndex + 1) % NUM_FRAMES);
-        }, intervalDuration);
+        const timeout = setTimeout(() => {
+            if (step + 1 < sequence.length) {
+                setCurrentStep(step + 1);
+            } else if (isLoopingMode(timeline.mode)) {
+                setCurrentStep(0);
+            } else {
+                setIsPlaying(false);
+            }
+        }, sequence[step].durationMs);
 
-        return () => clearInterval(interval);
-    }, [fps, isPlaying]);
+        return () => clearTimeout(timeout);
+    }, [step, sequence, isPlaying, isFlipping, timeline.mode]);
+
+    // Flip mode shows only the two chosen frames, alternating quickly
+    const currentFrameIndex = isFlipping
+        ? Math.min(frames.length - 1, flipped ? flipFrames[1] : flipFrames[0])
+        : sequence[step]?.frame ?? 0;
 
     // For the current index, find the last available frame by looking backwards
-    let imageToDisplay: string | null = null;
+    let displayIndex = -1;
     for (let i = currentFrameIndex; i >= 0; i--) {
         if (frames[i]) {
-            imageToDisplay = frames[i];
+            displayIndex = i;
             break;
         }
     }
     // If we didn't find one going back, try finding the first available one from the start
-    if (!imageToDisplay) {
-        for (let i = 0; i < frames.length; i++) {
-            if (frames[i]) {
-                imageToDisplay = frames[i];
-                break;
-            }
-        }
+    if (displayIndex === -1) {
+        displayIndex = frames.findIndex(frame => frame !== null);
     }
+    const imageToDisplay = displayIndex === -1 ? null : frames[displayIndex];
     
     const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setIsPlaying(false); // Pause on scrub
-        setCurrentFrameIndex(Number(e.target.value));
+        setIsFlipping(false);
+        setCurrentStep(Number(e.target.value));
     };
 
     const togglePlayPause = () => {
+        setIsFlipping(false);
+        // A finished play-once run starts over
+        if (!isPlaying && !isLoopingMode(timeline.mode) && step === sequence.length - 1) setCurrentStep(0);
         setIsPlaying(!isPlaying);
     };
 
+    const handleFlipFrameChange = (slot: 0 | 1, value: number) => {
+        const index = Math.max(0, Math.min(frames.length - 1, value - 1));
+        setFlipFrames(prev => slot === 0 ? [index, prev[1]] : [prev[0], index]);
+    };
+
 
     if (!imageToDisplay) {
         return null; // Don't render if no frames are available yet up to this point
     }
 
+    const beforeImage = showBefore && beforeFrames ? beforeFrames[displayIndex] : null;
+    // The reference is sampled to the frame count, but frames may have been inserted since
+    const referenceImage = showReference && referenceFrames?.length
+        ? referenceFrames[frames.length > 1 ? Math.round(displayIndex * (referenceFrames.length - 1) / (frames.length - 1)) : 0]
+        : null;
+
     return (
         <div className="w-full flex flex-col items-center gap-4">
-            <img
-                src={imageToDisplay}
-                alt="Live animation"
-                className="rounded-lg max-w-full h-auto max-h-80 shadow-lg"
-            />
+            <div className="flex justify-center gap-4">
+                {referenceImage && (
+                    <figure className="flex flex-col items-center gap-1">
+                        <img
+                            src={referenceImage}
+                            alt="Motion reference"
+                            className="rounded-lg max-w-full h-auto max-h-80 shadow-lg"
+                        />
+                        <figcaption className="text-xs text-gray-400">Reference</figcaption>
+                    </figure>
+                )}
+                {beforeImage && (
+                    <figure className="flex flex-col items-center gap-1">
+                        <OnionSkinFrame
+                            frames={beforeFrames!}
+                            index={displayIndex}
+                            settings={onionSkin}
+                            wrap
+                            className="rounded-lg max-w-full h-auto max-h-80 shadow-lg"
+                        />
+                        <figcaption className="text-xs text-gray-400">Before alignment</figcaption>
+                    </figure>
+                )}
+                <figure className="flex flex-col items-center gap-1">
+                    {onionSkin.enabled ? (
+                        <OnionSkinFrame
+                            frames={frames}
+                            index={displayIndex}
+                            settings={onionSkin}
+                            wrap
+                            className="rounded-lg max-w-full h-auto max-h-80 shadow-lg"
+                        />
+                    ) : (
+                        <img
+                            src={imageToDisplay}
+                            alt="Live animation"
+                            className="rounded-lg max-w-full h-auto max-h-80 shadow-lg"
+                        />
+                    )}
+                    {beforeImage
+                        ? <figcaption className="text-xs text-gray-400">After alignment</figcaption>
+                        : referenceImage && <figcaption className="text-xs text-gray-400">Result</figcaption>}
+                </figure>
+            </div>
              <div className="w-full max-w-sm flex items-center gap-3">
                 <button
                     onClick={togglePlayPause}
@@ -137,37 +545,105 @@ const AnimationPlayer = ({ frames, fps }: { frames: (string | null)[]; fps: numb
                  <input
                     type="range"
                     min="0"
-                    max={NUM_FRAMES - 1}
-                    value={currentFrameIndex}
+                    max={sequence.length - 1}
+                    value={step}
                     onChange={handleSliderChange}
                     className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
                     aria-label="Frame scrubber"
                 />
-                <span className="text-sm font-mono w-16 text-left text-gray-400">{currentFrameIndex + 1} / {NUM_FRAMES}</span>
+                <span className="text-sm font-mono w-24 text-left text-gray-400" title={`Showing frame ${currentFrameIndex + 1}`}>{step + 1} / {sequence.length}</span>
+            </div>
+            <OnionSkinControls settings={onionSkin} onChange={onOnionSkinChange} />
+            <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-300">
+                {beforeFrames && (
+                    <label className="flex items-center gap-2 mr-3">
+                        <input
+                            type="checkbox"
+                            checked={showBefore}
+                            onChange={(e) => setShowBefore(e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-pink-600 focus:ring-pink-600 focus:ring-offset-gray-800"
+                        />
+                        Before / after alignment
+                    </label>
+                )}
+                {referenceFrames && referenceFrames.length > 0 && (
+                    <label className="flex items-center gap-2 mr-3">
+                        <input
+                            type="checkbox"
+                            checked={showReference}
+                            onChange={(e) => setShowReference(e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-pink-600 focus:ring-pink-600 focus:ring-offset-gray-800"
+                        />
+                        Show reference
+                    </label>
+                )}
+                <button
+                    onClick={() => setIsFlipping(!isFlipping)}
+                    className={`rounded-md px-3 py-1 font-semibold text-white ${isFlipping ? 'bg-pink-600 hover:bg-pink-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+                >
+                    {isFlipping ? 'Stop Flipping' : 'Flip'}
+                </button>
+                <label htmlFor="flip-frame-a">between frames</label>
+                <input
+                    id="flip-frame-a"
+                    type="number"
+                    min={1}
+                    max={frames.length}
+                    value={flipFrames[0] + 1}
+                    onChange={(e) => handleFlipFrameChange(0, Number(e.target.value))}
+                    className="w-14 rounded-md border-0 bg-gray-700 py-0.5 px-1 text-white ring-1 ring-inset ring-gray-600"
+                />
+                <label htmlFor="flip-frame-b">and</label>
+                <input
+                    id="flip-frame-b"
+                    type="number"
+                    min={1}
+                    max={frames.length}
+                    value={flipFrames[1] + 1}
+                    onChange={(e) => handleFlipFrameChange(1, Number(e.target.value))}
+                    className="w-14 rounded-md border-0 bg-gray-700 py-0.5 px-1 text-white ring-1 ring-inset ring-gray-600"
+                />
             </div>
         </div>
     );
 };
 
 const FrameCorrectionModal = ({
+    editImage,
     frameIndices,
     generatedFrames,
     initialImage,
+    referenceSheet,
     backgroundInstruction,
+    onionSkin,
+    onOnionSkinChange,
+    postProcessFrame,
     onClose,
     onRegenerate,
 }: {
+    editImage: (request: ImageEditRequest, frameIndex: number) => Promise<MeteredImageResponse>;
     frameIndices: number[];
     generatedFrames: (string | null)[];
     initialImage: string;
+    referenceSheet: ReferenceSheetImage[];
     backgroundInstruction: string;
+    onionSkin: OnionSkinSettings;
+    onOnionSkinChange: (settings: OnionSkinSettings) => void;
+    postProcessFrame: (frame: string) => Promise<string>;
     onClose: () => void;
-    onRegenerate: (updates: { index: number; frame: string }[]) => void;
+    onRegenerate: (updates: FrameUpdate[]) => void;
 }) => {
     const [correctionPrompt, setCorrectionPrompt] = useState('');
     const [isRegenerating, setIsRegenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [progressMessage, setProgressMessage] = useState('');
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Which neighbour the selection is flipped against, if any
+    const [flipWith, setFlipWith] = useState<'prev' | 'next' | null>(null);
+    const flipped = useFlip(flipWith !== null);
+
+    // Stop any in-flight correction if the modal goes away
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
 
     if (!frameIndices || frameIndices.length === 0) return null;
     const sortedIndices = frameIndices.sort((a, b) => a - b);
@@ -177,7 +653,7 @@ const FrameCorrectionModal = ({
     const prevFrame = firstIndex > 0 ? generatedFrames[firstIndex - 1] : null;
     const firstSelectedFrame = generatedFrames[firstIndex];
     const lastSelectedFrame = generatedFrames[lastIndex];
-    const nextFrame = lastIndex < NUM_FRAMES - 1 ? generatedFrames[lastIndex + 1] : null;
+    const nextFrame = lastIndex < generatedFrames.length - 1 ? generatedFrames[lastIndex + 1] : null;
 
     const handleRegenerateClick = async () => {
         if (!correctionPrompt || sortedIndices.length === 0) return;
@@ -185,35 +661,40 @@ const FrameCorrectionModal = ({
         setError(null);
         setProgressMessage('');
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        const { signal } = abortController;
         const tempFrames = [...generatedFrames];
-        const newFrameUpdates: { index: number; frame: string }[] = [];
+        const newFrameUpdates: FrameUpdate[] = [];
 
         try {
             for (let i = 0; i < sortedIndices.length; i++) {
+                if (signal.aborted) break;
                 const frameIndex = sortedIndices[i];
                 const currentFrameToCorrect = tempFrames[frameIndex];
                 if (!currentFrameToCorrect) continue;
 
                 setProgressMessage(`Regenerating frame ${i + 1} of ${sortedIndices.length}...`);
 
-                const parts: ({ inlineData: { data: string; mimeType: string; } } | { text: string })[] = [
-                    dataUrlToGenerativePart(initialImage), // Style Lock
+                const images: string[] = [
+                    initialImage, // Style Lock
+                    ...getSheetImages(referenceSheet),
                 ];
                 
-                let contextPrompt = '';
+                let contextPrompt = referenceSheet.length > 0 ? describeReferenceSheet(referenceSheet, 2) + '\n' : '';
                 const prevContextFrame = frameIndex > 0 ? tempFrames[frameIndex - 1] : null;
-                const nextContextFrame = frameIndex < NUM_FRAMES - 1 ? tempFrames[frameIndex + 1] : null;
+                const nextContextFrame = frameIndex < tempFrames.length - 1 ? tempFrames[frameIndex + 1] : null;
 
                 if (prevContextFrame) {
-                    parts.push(dataUrlToGenerativePart(prevContextFrame));
-                    contextPrompt += '2. **Previous Frame:** The frame that comes just before the one you are creating.\n';
+                    images.push(prevContextFrame);
+                    contextPrompt += `${images.length}. **Previous Frame:** The frame that comes just before the one you are creating.\n`;
                 }
-                parts.push(dataUrlToGenerativePart(currentFrameToCorrect));
-                contextPrompt += `${parts.length}. **Frame to Correct:** This is the current, flawed frame that you need to fix.\n`;
+                images.push(currentFrameToCorrect);
+                contextPrompt += `${images.length}. **Frame to Correct:** This is the current, flawed frame that you need to fix.\n`;
 
                 if (nextContextFrame) {
-                    parts.push(dataUrlToGenerativePart(nextContextFrame));
-                    contextPrompt += `${parts.length}. **Next Frame:** The frame that comes just after the one you are creating.\n`;
+                    images.push(nextContextFrame);
+                    contextPrompt += `${images.length}. **Next Frame:** The frame that comes just after the one you are creating.\n`;
                 }
 
 
@@ -234,19 +715,11 @@ Redraw the "Frame to Correct" to incorporate the user's request. The new frame M
 
 Focus on applying the user's correction while preserving the flow of the animation.
 `;
-                parts.push({ text: refinedPrompt });
-
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image-preview',
-                    contents: { parts },
-                    config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-                });
-
-                const newImagePart = response.candidates?.[0]?.content.parts.find(p => 'inlineData' in p);
-                if (newImagePart && 'inlineData' in newImagePart && newImagePart.inlineData.data) {
-                    const newFrameData = `data:${newImagePart.inlineData.mimeType};base64,${newImagePart.inlineData.data}`;
+                const { image: rawFrameData, cost } = await editImage({ images, prompt: refinedPrompt, signal }, frameIndex);
+                const newFrameData = rawFrameData && await postProcessFrame(rawFrameData);
+                if (newFrameData) {
                     tempFrames[frameIndex] = newFrameData;
-                    newFrameUpdates.push({ index: frameIndex, frame: newFrameData });
+                    newFrameUpdates.push({ index: frameIndex, frame: newFrameData, prompt: refinedPrompt, label: `Correction: ${correctionPrompt}`, cost });
                 } else {
                     throw new Error(`AI did not return a valid image for frame ${frameIndex + 1}.`);
                 }
@@ -256,18 +729,39 @@ Focus on applying the user's correction while preserving the flow of the animati
             onClose();
 
         } catch (err) {
+            if (signal.aborted) {
+                // Keep the corrections that finished before the cancel
+                if (newFrameUpdates.length > 0) onRegenerate(newFrameUpdates);
+                onClose();
+                return;
+            }
             console.error('Frame regeneration failed:', err);
             setError(err instanceof Error ? err.message : 'An unknown error occurred.');
         } finally {
+            abortControllerRef.current = null;
             setIsRegenerating(false);
             setProgressMessage('');
         }
     };
 
+    // While regenerating, cancelling aborts the remaining work; finished frames are kept
+    const handleClose = () => {
+        if (abortControllerRef.current) {
+            abortControllerRef.current.abort();
+        } else {
+            onClose();
+        }
+    };
+
     if (!firstSelectedFrame) return null;
 
     const indicesString = sortedIndices.map(i => i + 1).join(', ');
 
+    // The frame shown in the onion-skin view: the selection, or its neighbour while flipped
+    const contextIndex = flipWith === 'next'
+        ? (flipped ? lastIndex + 1 : lastIndex)
+        : (flipWith === 'prev' && flipped ? firstIndex - 1 : firstIndex);
+
     return (
         <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
             <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-5xl max-h-full overflow-y-auto p-6">
@@ -275,7 +769,7 @@ Focus on applying the user's correction while preserving the flow of the animati
                     <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">
                         Correct Frame(s) {indicesString}
                     </h2>
-                    <button onClick={onClose} className="text-gray-400 hover:text-white">&times;</button>
+                    <button onClick={handleClose} className="text-gray-400 hover:text-white">&times;</button>
                 </div>
 
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-center">
@@ -297,6 +791,40 @@ Focus on applying the user's correction while preserving the flow of the animati
                     </div>
                 </div>
 
+                <div className="mb-4 flex flex-col items-center gap-3 rounded-lg bg-black/20 p-3">
+                    {(onionSkin.enabled || flipWith) && (
+                        onionSkin.enabled ? (
+                            <OnionSkinFrame
+                                frames={generatedFrames}
+                                index={contextIndex}
+                                settings={onionSkin}
+                                wrap={false}
+                                className="rounded-lg max-h-64 w-auto object-contain bg-black/20"
+                            />
+                        ) : (
+                            <img src={generatedFrames[contextIndex] ?? undefined} alt={`Frame ${contextIndex + 1}`} className="rounded-lg max-h-64 w-auto object-contain bg-black/20" />
+                        )
+                    )}
+                    {flipWith && <p className="text-xs font-mono text-gray-400">Frame {contextIndex + 1}</p>}
+                    <OnionSkinControls settings={onionSkin} onChange={onOnionSkinChange} />
+                    <div className="flex gap-2 text-sm">
+                        <button
+                            onClick={() => setFlipWith(flipWith === 'prev' ? null : 'prev')}
+                            disabled={!prevFrame}
+                            className={`rounded-md px-3 py-1 font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed ${flipWith === 'prev' ? 'bg-pink-600 hover:bg-pink-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+                        >
+                            {flipWith === 'prev' ? 'Stop Flipping' : 'Flip with Previous'}
+                        </button>
+                        <button
+                            onClick={() => setFlipWith(flipWith === 'next' ? null : 'next')}
+                            disabled={!nextFrame}
+                            className={`rounded-md px-3 py-1 font-semibold text-white disabled:opacity-50 disabled:cursor-not-allowed ${flipWith === 'next' ? 'bg-pink-600 hover:bg-pink-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+                        >
+                            {flipWith === 'next' ? 'Stop Flipping' : 'Flip with Next'}
+                        </button>
+                    </div>
+                </div>
+
                 <div>
                     <label htmlFor="correction-prompt" className="block text-lg font-medium text-gray-300 mb-2">Describe Correction</label>
                     <textarea
@@ -313,7 +841,7 @@ Focus on applying the user's correction while preserving the flow of the animati
                 {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
 
                 <div className="mt-6 flex justify-end gap-4">
-                    <button onClick={onClose} className="rounded-md bg-gray-600 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-500">Cancel</button>
+                    <button onClick={handleClose} className="rounded-md bg-gray-600 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-500">Cancel</button>
                     <button
                         onClick={handleRegenerateClick}
                         disabled={isRegenerating || !correctionPrompt}
@@ -328,381 +856,2776 @@ Focus on applying the user's correction while preserving the flow of the animati
 };
 
 
-const App = () => {
-    const [prompt, setPrompt] = useState('');
-    const [initialImage, setInitialImage] = useState<string | null>(null);
-    const [initialImageHasTransparency, setInitialImageHasTransparency] = useState(false);
-    const [generatedFrames, setGeneratedFrames] = useState<(string | null)[]>([]);
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [progress, setProgress] = useState(0);
-    const [isCyclic, setIsCyclic] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState('');
-    const [estimatedCost, setEstimatedCost] = useState(0);
-    const [fps, setFps] = useState(5);
-    const [selectedFrameIndices, setSelectedFrameIndices] = useState<number[]>([]);
-    const [editingFrameIndices, setEditingFrameIndices] = useState<number[] | null>(null);
-
-
-    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            setGeneratedFrames([]);
-            setError(null);
-            setInitialImage(null);
-            setInitialImageHasTransparency(false);
-            setSelectedFrameIndices([]);
-            setEditingFrameIndices(null);
-
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const img = new Image();
-                img.onload = () => {
-                    const canvas = document.createElement('canvas');
-                    const MAX_DIMENSION = 512;
-                    let { width, height } = img;
+const FrameHistoryModal = ({
+    frameIndex,
+    history,
+    onClose,
+    onSelectVersion,
+}: {
+    frameIndex: number;
+    history: FrameSlotHistory;
+    onClose: () => void;
+    onSelectVersion: (version: number) => void;
+}) => {
+    // Up to two versions picked for the side-by-side comparison
+    const [compareVersions, setCompareVersions] = useState<number[]>(() =>
+        history.active > 0 ? [history.active - 1, history.active] : [history.active]
+    );
 
-                    if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
-                        if (width > height) {
-                            height = Math.round(height * (MAX_DIMENSION / width));
-                            width = MAX_DIMENSION;
-                        } else {
-                            width = Math.round(width * (MAX_DIMENSION / height));
-                            height = MAX_DIMENSION;
-                        }
-                    }
-                    
-                    canvas.width = width;
-                    canvas.height = height;
-                    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-                    if (ctx) {
-                        ctx.drawImage(img, 0, 0, width, height);
-                        const dataUrl = canvas.toDataURL('image/png');
-                        setInitialImage(dataUrl);
-                        setInitialImageHasTransparency(checkTransparency(canvas));
-                    } else {
-                        setError("Could not process image.");
-                    }
-                };
-                img.onerror = () => {
-                    setError("Could not load the selected image file.");
-                };
-                if (event.target?.result) {
-                    img.src = event.target.result as string;
-                }
-            };
-            reader.onerror = () => {
-                setError("Could not read the selected file.");
-            };
-            reader.readAsDataURL(file);
-        }
+    const toggleCompare = (version: number) => {
+        setCompareVersions(prev => prev.includes(version)
+            ? prev.filter(v => v !== version)
+            : [...prev, version].slice(-2).sort((a, b) => a - b));
     };
 
-    const generateAnimation = async () => {
-        if (!prompt || !initialImage) {
-            setError("Please provide both an image and a prompt.");
-            return;
-        }
+    return (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
+            <div className="bg-gray-800 rounded-2xl shadow-xl w-full max-w-5xl max-h-full overflow-y-auto p-6">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">
+                        Frame {frameIndex + 1} History
+                    </h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white">&times;</button>
+                </div>
 
-        setIsLoading(true);
-        setError(null);
-        setProgress(0);
-        setEstimatedCost(0);
-        
-        const totalSteps = NUM_FRAMES + 1; // 1 for planning, NUM_FRAMES for image generation
+                {compareVersions.length === 2 && (
+                    <div className="grid grid-cols-2 gap-4 mb-6 text-center">
+                        {compareVersions.map(v => (
+                            <div key={v}>
+                                <h3 className="text-lg font-semibold text-gray-300 mb-2">Version {v + 1}</h3>
+                                <img src={history.versions[v].image} className="rounded-lg w-full aspect-square object-contain bg-black/20" />
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <p className="text-sm text-gray-400 mb-3">Tick two versions to compare them side by side.</p>
 
-        const allFramesData = new Array<string | null>(NUM_FRAMES).fill(null);
-        setGeneratedFrames([...allFramesData]);
-        
-        const backgroundInstruction = initialImageHasTransparency
-            ? "The background MUST be perfectly transparent."
-            : "The background of the generated image MUST perfectly match the background of the provided keyframes. Do not alter the background.";
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {history.versions.map((version, v) => (
+                        <div key={v} className={`rounded-lg p-2 text-left text-xs text-gray-300 ${v === history.active ? 'ring-2 ring-pink-500' : 'ring-1 ring-gray-700'}`}>
+                            <img src={version.image} alt={`Version ${v + 1}`} className="rounded-md w-full aspect-square object-contain bg-black/20 mb-2" />
+                            <div className="flex items-center justify-between mb-1">
+                                <span className="font-semibold text-gray-200">v{v + 1}{v === history.active ? ' (current)' : ''}</span>
+                                <label className="flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={compareVersions.includes(v)}
+                                        onChange={() => toggleCompare(v)}
+                                        className="h-3 w-3 rounded border-gray-500 bg-gray-700 text-pink-600"
+                                    />
+                                    Compare
+                                </label>
+                            </div>
+                            <p className="break-words">{version.label}</p>
+                            <p className="text-gray-500">{new Date(version.createdAt).toLocaleString()} · ${version.cost.toFixed(3)}</p>
+                            {version.prompt && (
+                                <details className="mt-1">
+                                    <summary className="cursor-pointer text-gray-400">Prompt</summary>
+                                    <pre className="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap text-[10px] text-gray-400">{version.prompt}</pre>
+                                </details>
+                            )}
+                            <button
+                                onClick={() => onSelectVersion(v)}
+                                disabled={v === history.active}
+                                className="mt-2 w-full rounded-md bg-purple-600 px-2 py-1 font-semibold text-white hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Use this version
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
 
 
-        // Helper to generate a single frame between a start and end point
-        const generateSingleFrame = async (startIndex: number, endIndex: number, framePrompts: Record<string, string>[], originalImage: string) => {
-            const midIndex = Math.floor((startIndex + endIndex) / 2);
+const ReferenceSheetPanel = ({
+    sheet,
+    disabled,
+    onChange,
+}: {
+    sheet: ReferenceSheetImage[];
+    disabled: boolean;
+    onChange: (sheet: ReferenceSheetImage[]) => void;
+}) => {
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files ?? []);
+        e.target.value = '';
+        const added = await Promise.all(files.map(async file => ({ image: await fileToDataUrl(file), view: guessReferenceView(file.name), note: '' })));
+        if (added.length > 0) onChange([...sheet, ...added]);
+    };
 
-            if (!allFramesData[startIndex] || !allFramesData[endIndex] || !framePrompts[startIndex] || !framePrompts[midIndex]) {
-                console.warn(`Skipping frame ${midIndex} due to missing boundary data.`);
-                return null;
-            }
+    const updateEntry = (index: number, change: Partial<ReferenceSheetImage>) =>
+        onChange(sheet.map((entry, i) => i === index ? { ...entry, ...change } : entry));
 
-            try {
-                const originalImagePart = dataUrlToGenerativePart(originalImage);
-                const startFramePart = dataUrlToGenerativePart(allFramesData[startIndex]!);
-                const endFramePart = dataUrlToGenerativePart(allFramesData[endIndex]!);
-                
-                // Compare the target pose with the start pose to find what's different
-                const { changedParts, unchangedParts } = diffPoses(framePrompts[startIndex], framePrompts[midIndex]);
+    return (
+        <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300" open={sheet.length > 0}>
+            <summary className="cursor-pointer font-medium">Reference sheet{sheet.length > 0 ? ` (${sheet.length} view${sheet.length === 1 ? '' : 's'})` : ''}</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <p className="text-xs text-gray-500">Add other views of the character, such as its side, back or detail close-ups. They are sent with the uploaded image as the style lock, so turning motions don't have to guess what the character looks like from behind.</p>
+                {sheet.map((entry, index) => (
+                    <div key={index} className="flex items-center gap-3">
+                        <img src={entry.image} alt={REFERENCE_VIEW_LABELS[entry.view]} className="h-14 w-14 flex-shrink-0 rounded bg-gray-700 object-contain" />
+                        <div className="flex flex-1 flex-col gap-1">
+                            <select
+                                value={entry.view}
+                                onChange={(e) => updateEntry(index, { view: e.target.value as ReferenceView })}
+                                disabled={disabled}
+                                className="rounded-md border-0 bg-gray-700 py-1 px-2 text-xs text-white ring-1 ring-inset ring-gray-600"
+                                aria-label={`View shown by reference ${index + 1}`}
+                            >
+                                {(Object.keys(REFERENCE_VIEW_LABELS) as ReferenceView[]).map(view => (
+                                    <option key={view} value={view}>{REFERENCE_VIEW_LABELS[view]}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                value={entry.note}
+                                onChange={(e) => updateEntry(index, { note: e.target.value })}
+                                disabled={disabled}
+                                placeholder="Label, e.g. left side or sword hilt"
+                                className="rounded-md border-0 bg-white/5 py-1 px-2 text-xs text-white ring-1 ring-inset ring-gray-600 placeholder:text-gray-500"
+                                aria-label={`Label of reference ${index + 1}`}
+                            />
+                        </div>
+                        <button
+                            onClick={() => onChange(sheet.filter((_, i) => i !== index))}
+                            disabled={disabled}
+                            title="Remove view"
+                            className="h-6 w-6 flex-shrink-0 rounded-full bg-gray-900 text-xs text-white ring-1 ring-gray-600 hover:bg-red-600 disabled:opacity-50"
+                        >
+                            &times;
+                        </button>
+                    </div>
+                ))}
+                <label className={`self-start rounded-md bg-gray-700 px-3 py-1.5 text-xs font-semibold text-white ring-1 ring-inset ring-gray-600 ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-gray-600'}`}>
+                    Add views
+                    <input type="file" multiple className="sr-only" accept="image/png, image/jpeg, image/gif, image/webp" disabled={disabled} onChange={handleUpload} />
+                </label>
+            </div>
+        </details>
+    );
+};
 
-                const changeDescription = changedParts.length > 0 
-                    ? changedParts.map(part => `  - ${part}: ${framePrompts[midIndex][part]}`).join('\n')
-                    : "  - No direct pose changes, but follow the 'notes' for this frame: " + framePrompts[midIndex]['notes'];
-                
-                const unchangedDescription = unchangedParts.length > 0 ? unchangedParts.join(', ') : 'All other parts';
 
+const MotionReferencePanel = ({
+    files,
+    frames,
+    isLoading,
+    error,
+    disabled,
+    onChange,
+}: {
+    files: File[];
+    // The reference sampled to the frame count, once loaded.
+    frames: string[];
+    isLoading: boolean;
+    error: string | null;
+    disabled: boolean;
+    onChange: (files: File[]) => void;
+}) => {
+    const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from<File>(e.target.files ?? []);
+        e.target.value = '';
+        if (selected.length > 0) onChange(selected);
+    };
 
-                const refinedPrompt = `
-You are an expert animator executing a single, precise instruction for a motion photoshoot.
+    const source = files.length > 1 ? `${files.length} images` : files[0]?.name;
 
-**REFERENCE IMAGES:**
-1.  **Original Image (Style Lock):** This is the "ground truth" for the character's appearance. The final output's art style, colors, and proportions MUST match this image with 100% fidelity.
-2.  **Start Frame:** This is the frame you will be modifying.
-3.  **End Frame:** This provides context for the end of the motion.
+    return (
+        <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300" open={files.length > 0}>
+            <summary className="cursor-pointer font-medium">Motion reference{source ? `: ${source}` : ''}</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <p className="text-xs text-gray-500">Upload a GIF, a video, or several images forming a sequence. It is sampled to the frame count, and the plan follows its movement frame by frame.</p>
+                <div className="flex items-center gap-3">
+                    <label className={`rounded-md bg-gray-700 px-3 py-1.5 text-xs font-semibold text-white ring-1 ring-inset ring-gray-600 ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-gray-600'}`}>
+                        {files.length > 0 ? 'Replace reference' : 'Upload reference'}
+                        <input type="file" multiple className="sr-only" accept="image/gif, image/png, image/jpeg, image/webp, video/*" disabled={disabled} onChange={handleUpload} />
+                    </label>
+                    {files.length > 0 && (
+                        <button onClick={() => onChange([])} disabled={disabled} className="text-xs text-gray-400 hover:text-red-400 disabled:opacity-50">
+                            Remove
+                        </button>
+                    )}
+                    {isLoading && <span className="text-xs text-gray-400">Sampling&hellip;</span>}
+                </div>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                {frames.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {frames.map((frame, index) => (
+                            <img key={index} src={frame} alt={`Reference frame ${index + 1}`} title={`Reference frame ${index + 1}`} className="h-12 w-12 rounded bg-gray-700 object-contain" />
+                        ))}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
 
-**PRIMARY GOAL:** Your task is to perform a minimal, surgical modification to the "Start Frame".
 
-**INSTRUCTIONS FOR THIS FRAME:**
+const KeyframeSlots = ({
+    count,
+    keyframes,
+    disabled,
+    onChange,
+}: {
+    count: number;
+    keyframes: (string | null)[];
+    disabled: boolean;
+    onChange: (keyframes: (string | null)[]) => void;
+}) => {
+    const setSlot = (index: number, image: string | null) => {
+        const next = Array.from({ length: Math.max(count, keyframes.length) }, (_, i) => keyframes[i] ?? null);
+        next[index] = image;
+        onChange(next);
+    };
 
-1.  **STEP 1: REPLICATE:** Start by creating a perfect, pixel-for-pixel copy of the "Start Frame".
-2.  **STEP 2: MODIFY:** Apply ONLY the following changes. DO NOT TOUCH any other part of the character.
-    -   **UNCHANGED PARTS:** The following parts MUST remain IDENTICAL to the "Start Frame": **${unchangedDescription}**
-    -   **CHANGED PARTS:** Modify ONLY these parts to match their new description:
-${changeDescription}
+    const handleUpload = async (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) setSlot(index, await fileToDataUrl(file));
+    };
 
-**CRUCIAL RULES:**
-- **MINIMAL CHANGE:** This is your most important rule. Do not get creative. Do not reinterpret the character. Your job is to execute a tiny, specific change.
-- **STYLE FIDELITY:** The final image must look exactly like the "Original Image" in terms of style.
-- **Background:** ${backgroundInstruction}
-`;
+    return (
+        <div className="w-full mb-4">
+            <h3 className="text-sm font-semibold text-gray-300 mb-1">Keyframes</h3>
+            <p className="text-xs text-gray-500 mb-2">Upload your own drawings into any slot. They are kept exactly as drawn; only the gaps between them are generated.</p>
+            <div className="flex flex-wrap gap-2">
+                {Array.from({ length: count }, (_, index) => {
+                    const keyframe = keyframes[index];
+                    return (
+                        <div key={index} className="relative h-16 w-16">
+                            {keyframe ? (
+                                <>
+                                    <img src={keyframe} alt={`Keyframe ${index + 1}`} className="h-full w-full rounded bg-gray-700 object-contain ring-2 ring-emerald-500" />
+                                    <button
+                                        onClick={() => setSlot(index, null)}
+                                        disabled={disabled}
+                                        title="Remove keyframe"
+                                        className="absolute -right-1 -top-1 h-5 w-5 rounded-full bg-gray-900 text-xs text-white ring-1 ring-gray-600 hover:bg-red-600 disabled:opacity-50"
+                                    >
+                                        &times;
+                                    </button>
+                                </>
+                            ) : (
+                                <label className={`flex h-full w-full items-center justify-center rounded border border-dashed border-gray-600 text-xs text-gray-500 ${disabled ? 'opacity-50' : 'cursor-pointer hover:border-gray-400 hover:text-gray-300'}`}>
+                                    + {index + 1}
+                                    <input type="file" className="sr-only" accept="image/png, image/jpeg, image/gif, image/webp" disabled={disabled} onChange={(e) => handleUpload(index, e)} />
+                                </label>
+                            )}
+                            {keyframe && <span className="absolute bottom-0 left-0 rounded-tr bg-black/70 px-1 text-[10px] font-mono text-gray-200">{index + 1}</span>}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
 
+const PlanEditor = ({
+    framePrompts,
+    poseKeys,
+    disabled,
+    onChange,
+    onReplan,
+    onRegenerate,
+}: {
+    framePrompts: Record<string, string>[];
+    // The keys of the current rig, shown first and in order
+    poseKeys: string[];
+    disabled: boolean;
+    onChange: (framePrompts: Record<string, string>[]) => void;
+    onReplan: (start: number, end: number, guidance: string) => void;
+    onRegenerate: () => void;
+}) => {
+    const [rangeStart, setRangeStart] = useState(1);
+    const [rangeEnd, setRangeEnd] = useState(1);
+    const [guidance, setGuidance] = useState('');
 
-                const midFrameResponse = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image-preview',
-                    contents: {
-                        parts: [
-                            originalImagePart, // Style Lock
-                            startFramePart,   // Frame to modify
-                            endFramePart,     // Context
-                            { text: refinedPrompt },
-                        ],
-                    },
-                    config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-                });
+    // Show the rig's pose keys first, then anything else the planner returned
+    const columns = [...new Set([...poseKeys, ...framePrompts.flatMap(pose => Object.keys(pose))])];
+    const isRangeValid = rangeStart >= 1 && rangeEnd <= framePrompts.length && rangeStart <= rangeEnd;
 
-                const midImagePart = midFrameResponse.candidates?.[0]?.content.parts.find(p => 'inlineData' in p);
-                if (midImagePart && 'inlineData' in midImagePart && midImagePart.inlineData.data) {
-                    return {
-                        index: midIndex,
-                        frame: `data:${midImagePart.inlineData.mimeType};base64,${midImagePart.inlineData.data}`
-                    };
+    const handleCellChange = (frameIndex: number, key: string, value: string) => {
+        onChange(framePrompts.map((pose, i) => i === frameIndex ? { ...pose, [key]: value } : pose));
+    };
+
+    return (
+        <div className="w-full">
+            <div className="overflow-x-auto rounded-lg ring-1 ring-gray-700">
+                <table className="min-w-full text-left text-xs text-gray-300">
+                    <thead className="bg-gray-900/60 text-gray-400 uppercase">
+                        <tr>
+                            <th className="sticky left-0 bg-gray-900 px-2 py-2">Frame</th>
+                            {columns.map(key => <th key={key} className="px-2 py-2 whitespace-nowrap">{key.replace(/_/g, ' ')}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {framePrompts.map((pose, frameIndex) => (
+                            <tr key={frameIndex} className="border-t border-gray-700 align-top">
+                                <td className="sticky left-0 bg-gray-800 px-2 py-2 font-mono text-gray-400">{frameIndex + 1}</td>
+                                {columns.map(key => (
+                                    <td key={key} className="px-1 py-1">
+                                        <textarea
+                                            rows={3}
+                                            value={pose[key] ?? ''}
+                                            disabled={disabled}
+                                            onChange={(e) => handleCellChange(frameIndex, key, e.target.value)}
+                                            className="w-48 rounded bg-white/5 p-1 text-xs text-white ring-1 ring-inset ring-gray-700 focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                                            aria-label={`Frame ${frameIndex + 1} ${key}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+                <label htmlFor="replan-start">Re-plan frames</label>
+                <input
+                    id="replan-start"
+                    type="number"
+                    min={1}
+                    max={framePrompts.length}
+                    value={rangeStart}
+                    onChange={(e) => setRangeStart(Number(e.target.value))}
+                    className="w-16 rounded-md border-0 bg-gray-700 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                />
+                <label htmlFor="replan-end">to</label>
+                <input
+                    id="replan-end"
+                    type="number"
+                    min={1}
+                    max={framePrompts.length}
+                    value={rangeEnd}
+                    onChange={(e) => setRangeEnd(Number(e.target.value))}
+                    className="w-16 rounded-md border-0 bg-gray-700 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                />
+                <input
+                    type="text"
+                    value={guidance}
+                    onChange={(e) => setGuidance(e.target.value)}
+                    placeholder="Optional direction, e.g. raise the arm higher"
+                    className="flex-1 min-w-[12rem] rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600 placeholder:text-gray-500"
+                    aria-label="Direction for the re-planned frames"
+                />
+                <button
+                    onClick={() => onReplan(rangeStart - 1, rangeEnd - 1, guidance)}
+                    disabled={disabled || !isRangeValid}
+                    className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Re-plan Range
+                </button>
+                <button
+                    onClick={onRegenerate}
+                    disabled={disabled}
+                    className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Regenerate Whole Plan
+                </button>
+            </div>
+        </div>
+    );
+};
+
+
+const TimelineEditor = ({
+    frames,
+    timeline,
+    fps,
+    onChange,
+}: {
+    frames: (string | null)[];
+    timeline: Timeline;
+    fps: number;
+    onChange: (timeline: Timeline) => void;
+}) => {
+    const totalDurationMs = getPlaybackSequence(timeline, fps).reduce((sum, step) => sum + step.durationMs, 0);
+
+    return (
+        <div className="w-full mt-6 text-left">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-2 text-sm text-gray-300">
+                <h3 className="text-lg font-semibold text-gray-200">Timeline</h3>
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={timeline.mode}
+                        onChange={(e) => onChange({ ...timeline, mode: e.target.value as PlaybackMode })}
+                        className="rounded-md border-0 bg-gray-700 py-1 px-2 text-white ring-1 ring-inset ring-gray-600 focus:ring-2 focus:ring-pink-500"
+                        aria-label="Playback mode"
+                    >
+                        {(Object.keys(PLAYBACK_MODE_LABELS) as PlaybackMode[]).map(mode => (
+                            <option key={mode} value={mode}>{PLAYBACK_MODE_LABELS[mode]}</option>
+                        ))}
+                    </select>
+                    <span className="text-gray-400">{(totalDurationMs / 1000).toFixed(2)}s per cycle</span>
+                    <button
+                        onClick={() => onChange({ ...createTimeline(frames.length), mode: timeline.mode })}
+                        className="rounded-md bg-gray-600 px-3 py-1 font-semibold text-white hover:bg-gray-500"
+                    >
+                        Reset
+                    </button>
+                </div>
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-2">
+                {timeline.entries.map((entry, i) => (
+                    <div key={i} className="flex-none w-28 rounded-lg bg-black/20 p-2 text-xs text-gray-300 ring-1 ring-gray-700">
+                        {frames[entry.frame]
+                            ? <img src={frames[entry.frame]!} alt={`Frame ${entry.frame + 1}`} className="w-full aspect-square object-contain rounded bg-gray-700" />
+                            : <div className="w-full aspect-square rounded bg-gray-700" />}
+                        <div className="mt-1 font-mono text-gray-400">#{i + 1} · frame {entry.frame + 1}</div>
+                        <label className="mt-1 flex items-center gap-1">
+                            <input
+                                type="number"
+                                min={MIN_FRAME_DURATION_MS}
+                                step={10}
+                                value={entry.durationMs ?? ''}
+                                placeholder={String(Math.round(getEntryDuration(entry, fps)))}
+                                onChange={(e) => onChange(setEntryDuration(timeline, i, e.target.value === '' ? undefined : Number(e.target.value)))}
+                                className="w-16 rounded border-0 bg-gray-700 py-0.5 px-1 text-white ring-1 ring-inset ring-gray-600 placeholder:text-gray-500"
+                                aria-label={`Duration of step ${i + 1} in milliseconds`}
+                                title="Leave empty to follow the FPS"
+                            />
+                            ms
+                        </label>
+                        <div className="mt-1 flex justify-between">
+                            <button onClick={() => onChange(moveEntry(timeline, i, i - 1))} disabled={i === 0} className="px-1 hover:text-white disabled:opacity-30" title="Move earlier">&larr;</button>
+                            <button onClick={() => onChange(duplicateEntry(timeline, i))} className="px-1 hover:text-white" title="Duplicate">&#x29c9;</button>
+                            <button onClick={() => onChange(removeEntry(timeline, i))} disabled={timeline.entries.length <= 1} className="px-1 hover:text-red-400 disabled:opacity-30" title="Delete from timeline">&times;</button>
+                            <button onClick={() => onChange(moveEntry(timeline, i, i + 1))} disabled={i === timeline.entries.length - 1} className="px-1 hover:text-white disabled:opacity-30" title="Move later">&rarr;</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500">Durations left empty follow the FPS. Duplicate a frame or raise its duration to hold it.</p>
+        </div>
+    );
+};
+
+
+const AnimationSetPanel = ({
+    animationSet,
+    activeAction,
+    disabled,
+    onStart,
+    onChange,
+    onActiveChange,
+    onResetAction,
+    onGenerate,
+    onLeave,
+}: {
+    animationSet: AnimationSet | null;
+    // The active action as it currently is in the main view
+    activeAction: SetAction | null;
+    disabled: boolean;
+    onStart: () => void;
+    onChange: (animationSet: AnimationSet) => void;
+    // Edits to the active action go to the main view, which owns it while it is shown
+    onActiveChange: (action: SetAction) => void;
+    // Drops an action's plan and frames so its prompt and frame count can change
+    onResetAction: (index: number) => void;
+    onGenerate: () => void;
+    onLeave: () => void;
+}) => {
+    if (!animationSet) {
+        return (
+            <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300">
+                <summary className="cursor-pointer font-medium">Animation Set</summary>
+                <div className="mt-3 flex flex-col gap-3">
+                    <p className="text-gray-400">Generate several actions for this character (idle, walk, run, jump, attack, hurt) from one shared base frame, so they all keep the same style.</p>
+                    <button
+                        onClick={onStart}
+                        disabled={disabled}
+                        className="self-start rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50"
+                    >
+                        Start a Character Set
+                    </button>
+                </div>
+            </details>
+        );
+    }
+
+    const updateAction = (index: number, changes: Partial<SetAction>) => {
+        if (index === animationSet.active) {
+            onActiveChange({ ...activeAction!, ...changes });
+            return;
+        }
+        onChange({ ...animationSet, actions: animationSet.actions.map((action, i) => i === index ? { ...action, ...changes } : action) });
+    };
+
+    const removeAction = (index: number) => {
+        const actions = animationSet.actions.filter((_, i) => i !== index);
+        onChange({ ...animationSet, actions, active: animationSet.active > index ? animationSet.active - 1 : animationSet.active });
+    };
+
+    return (
+        <details open className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300">
+            <summary className="cursor-pointer font-medium">Animation Set</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <div className="flex items-center gap-3">
+                    {animationSet.baseFrame
+                        ? <img src={animationSet.baseFrame} alt="Shared base frame" className="h-16 w-16 rounded bg-gray-700 object-contain" />
+                        : <div className="flex h-16 w-16 items-center justify-center rounded bg-gray-700 text-center text-xs text-gray-500">No base frame</div>}
+                    <p className="text-xs text-gray-400">Every action starts from this cleaned base frame and uses it as its style lock.</p>
+                </div>
+                {animationSet.actions.map((stored, index) => {
+                    const action = index === animationSet.active && activeAction ? activeAction : stored;
+                    const isPlanned = action.framePrompts.length > 0;
+                    const done = getActiveFrames(action.frameHistory).filter(Boolean).length;
+                    return (
+                        <div key={index} className={`flex flex-col gap-1 rounded-md p-2 ring-1 ${index === animationSet.active ? 'ring-pink-500' : 'ring-gray-700'}`}>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={action.name}
+                                    onChange={(e) => updateAction(index, { name: e.target.value })}
+                                    disabled={disabled}
+                                    aria-label="Action name"
+                                    className="w-28 rounded-md border-0 bg-white/5 py-1 px-2 font-mono text-white ring-1 ring-inset ring-gray-600"
+                                />
+                                <input
+                                    type="number"
+                                    min={MIN_NUM_FRAMES}
+                                    max={MAX_NUM_FRAMES}
+                                    value={action.numFrames}
+                                    onChange={(e) => updateAction(index, { numFrames: Math.min(MAX_NUM_FRAMES, Math.max(MIN_NUM_FRAMES, Number(e.target.value))) })}
+                                    disabled={disabled || isPlanned}
+                                    aria-label="Frames"
+                                    className="w-16 rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                                />
+                                <label className="flex items-center gap-1 text-xs">
+                                    <input
+                                        type="checkbox"
+                                        checked={action.isCyclic}
+                                        onChange={(e) => updateAction(index, { isCyclic: e.target.checked })}
+                                        disabled={disabled || isPlanned}
+                                        className="h-3 w-3 rounded border-gray-300 text-purple-600"
+                                    />
+                                    Loop
+                                </label>
+                                <span className="ml-auto text-xs text-gray-500">{isPlanned ? `${done}/${action.framePrompts.length}` : 'not planned'}</span>
+                                {isPlanned && (
+                                    <button onClick={() => onResetAction(index)} disabled={disabled} title="Discard the plan and frames" className="text-xs text-gray-400 hover:text-white disabled:opacity-50">Reset</button>
+                                )}
+                                <button
+                                    onClick={() => removeAction(index)}
+                                    disabled={disabled || animationSet.actions.length <= 1 || index === animationSet.active}
+                                    title="Remove action"
+                                    className="text-gray-400 hover:text-white disabled:opacity-30"
+                                >
+                                    &times;
+                                </button>
+                            </div>
+                            <input
+                                type="text"
+                                value={action.prompt}
+                                onChange={(e) => updateAction(index, { prompt: e.target.value })}
+                                disabled={disabled || isPlanned}
+                                placeholder="Describe this action"
+                                aria-label="Action prompt"
+                                className="rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600 placeholder:text-gray-500"
+                            />
+                        </div>
+                    );
+                })}
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={() => onChange({ ...animationSet, actions: [...animationSet.actions, createSetAction(`action_${animationSet.actions.length + 1}`, '', DEFAULT_NUM_FRAMES, false)] })}
+                        disabled={disabled}
+                        className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50"
+                    >
+                        Add Action
+                    </button>
+                    <button
+                        onClick={onGenerate}
+                        disabled={disabled || animationSet.actions.some((action, i) => !(i === animationSet.active && activeAction ? activeAction : action).prompt)}
+                        className="rounded-md bg-purple-600 px-3 py-1.5 font-semibold text-white hover:bg-purple-500 disabled:opacity-50"
+                    >
+                        Generate Set
+                    </button>
+                    <button
+                        onClick={onLeave}
+                        disabled={disabled}
+                        className="ml-auto rounded-md px-3 py-1.5 text-gray-400 hover:text-white disabled:opacity-50"
+                    >
+                        Leave Set Mode
+                    </button>
+                </div>
+            </div>
+        </details>
+    );
+};
+
+
+const DirectionPanel = ({
+    settings,
+    variants,
+    timeline,
+    fps,
+    disabled,
+    budgetPaused,
+    onChange,
+    onGenerate,
+    onContinue,
+    onDownload,
+}: {
+    settings: DirectionSettings;
+    variants: DirectionVariant[] | null;
+    // The source animation's timeline, which every direction plays by.
+    timeline: Timeline;
+    fps: number;
+    disabled: boolean;
+    budgetPaused: boolean;
+    onChange: (settings: DirectionSettings) => void;
+    onGenerate: () => void;
+    onContinue: () => void;
+    onDownload: () => void;
+}) => {
+    const [step, setStep] = useState(0);
+    const sequence = useMemo(() => getPlaybackSequence(timeline, fps), [timeline, fps]);
+    const directions = getDirections(settings.count);
+    const currentStep = sequence.length > 0 ? step % sequence.length : 0;
+
+    // All rows play in lockstep, so the directions can be compared frame by frame
+    useEffect(() => {
+        if (!variants || sequence.length === 0) return;
+        const timeout = setTimeout(() => setStep(currentStep + 1), sequence[currentStep].durationMs);
+        return () => clearTimeout(timeout);
+    }, [currentStep, sequence, variants]);
+
+    const isComplete = !!variants && variants.every(variant =>
+        variant.frameHistory.length > 0 && getActiveFrames(variant.frameHistory).every(Boolean));
+
+    return (
+        <details className="rounded-lg bg-black/20 px-4 py-3 text-left text-sm text-gray-300" open={!!variants}>
+            <summary className="cursor-pointer font-medium">Directions (top-down)</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <p className="text-xs text-gray-500">Redo this animation facing every direction. Each direction starts from a turned copy of frame 1 and follows the same plan.</p>
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2">
+                        Directions
+                        <select
+                            value={settings.count}
+                            onChange={(e) => onChange({ ...settings, count: Number(e.target.value) as DirectionCount })}
+                            disabled={disabled}
+                            className="rounded-md border-0 bg-gray-700 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                        >
+                            <option value={4}>4 (N, E, S, W)</option>
+                            <option value={8}>8 (with diagonals)</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        This animation faces
+                        <select
+                            value={settings.source}
+                            onChange={(e) => onChange({ ...settings, source: e.target.value as Direction })}
+                            disabled={disabled}
+                            className="rounded-md border-0 bg-gray-700 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                        >
+                            {getDirections(8).map(direction => (
+                                <option key={direction} value={direction}>{DIRECTION_LABELS[direction]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.mirror}
+                            onChange={(e) => onChange({ ...settings, mirror: e.target.checked })}
+                            disabled={disabled}
+                            className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-pink-600"
+                        />
+                        Mirror east / west instead of generating
+                    </label>
+                </div>
+                <p className="text-xs text-gray-500">
+                    {directions.filter(direction => direction !== settings.source && !getMirrorSource(direction, settings)).length} direction(s) will be generated
+                    {settings.mirror ? `, ${directions.filter(direction => getMirrorSource(direction, settings)).length} mirrored` : ''}.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={onGenerate}
+                        disabled={disabled || !directions.includes(settings.source)}
+                        className="rounded-md bg-purple-600 px-3 py-1.5 font-semibold text-white hover:bg-purple-500 disabled:opacity-50"
+                    >
+                        {variants && !isComplete ? 'Resume Directions' : 'Generate Directions'}
+                    </button>
+                    {budgetPaused && variants && !isComplete && (
+                        <button
+                            onClick={onContinue}
+                            disabled={disabled}
+                            className="rounded-md bg-amber-600 px-3 py-1.5 font-semibold text-white hover:bg-amber-500 disabled:opacity-50"
+                        >
+                            Continue Anyway (over budget)
+                        </button>
+                    )}
+                    {isComplete && (
+                        <button
+                            onClick={onDownload}
+                            disabled={disabled}
+                            className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50"
+                        >
+                            Download Directions (.zip)
+                        </button>
+                    )}
+                </div>
+                {!directions.includes(settings.source) && (
+                    <p className="text-xs text-amber-400">Choose 8 directions to start from a diagonal.</p>
+                )}
+                {variants && (
+                    <div className="overflow-x-auto">
+                        <table className="border-separate border-spacing-1">
+                            <tbody>
+                                {variants.map(variant => {
+                                    const frames = getActiveFrames(variant.frameHistory);
+                                    const playing = frames[sequence[currentStep]?.frame ?? 0];
+                                    return (
+                                        <tr key={variant.direction}>
+                                            <th className="pr-2 text-left text-xs font-medium text-gray-400 whitespace-nowrap">
+                                                {DIRECTION_LABELS[variant.direction]}
+                                                {variant.mirroredFrom && <span className="block font-normal text-gray-500">mirrored from {variant.mirroredFrom}</span>}
+                                            </th>
+                                            <td>
+                                                {playing
+                                                    ? <img src={playing} alt={`${DIRECTION_LABELS[variant.direction]} preview`} className="h-16 w-16 rounded bg-gray-700 object-contain ring-1 ring-pink-500" />
+                                                    : <div className="h-16 w-16 rounded bg-gray-700" />}
+                                            </td>
+                                            {frames.map((frame, index) => (
+                                                <td key={index}>
+                                                    {frame
+                                                        ? <img src={frame} alt={`${DIRECTION_LABELS[variant.direction]} frame ${index + 1}`} className="h-12 w-12 rounded bg-gray-700 object-contain" />
+                                                        : <div title={variant.frameErrors[index] ?? 'Not generated yet'} className="h-12 w-12 rounded bg-red-900/30 ring-1 ring-red-500/60" />}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+const PRICING_FIELDS: { key: keyof ModelPricing; label: string }[] = [
+    { key: 'inputPerMillionTokens', label: 'In $/1M tok' },
+    { key: 'outputPerMillionTokens', label: 'Out $/1M tok' },
+    { key: 'perImage', label: '$/image' },
+];
+
+const CostPanel = ({
+    ledger,
+    pricing,
+    budget,
+    models,
+    disabled,
+    onPricingChange,
+    onBudgetChange,
+    onDownloadCsv,
+}: {
+    ledger: LedgerEntry[];
+    pricing: PricingTable;
+    budget: BudgetSettings;
+    // Models of the current provider, listed in the pricing table even before they are priced
+    models: string[];
+    disabled: boolean;
+    onPricingChange: (pricing: PricingTable) => void;
+    onBudgetChange: (budget: BudgetSettings) => void;
+    onDownloadCsv: () => void;
+}) => {
+    const pricedModels = [...new Set([...models, ...Object.keys(pricing)])];
+    const total = ledger.reduce((sum, entry) => sum + entry.cost, 0);
+    const byPurpose = (Object.keys(CALL_PURPOSE_LABELS) as CallPurpose[])
+        .map(purpose => {
+            const entries = ledger.filter(entry => entry.purpose === purpose);
+            return { purpose, calls: entries.length, cost: entries.reduce((sum, entry) => sum + entry.cost, 0) };
+        })
+        .filter(({ calls }) => calls > 0);
+
+    const handlePriceChange = (model: string, key: keyof ModelPricing, value: string) => {
+        const current = pricing[model] ?? { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+        onPricingChange({ ...pricing, [model]: { ...current, [key]: Math.max(0, Number(value) || 0) } });
+    };
+
+    return (
+        <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300">
+            <summary className="cursor-pointer font-medium">Costs &amp; Budget</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <label className="flex items-center justify-between gap-3">
+                    Budget ($)
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="No limit"
+                        value={budget.limit ?? ''}
+                        onChange={(e) => onBudgetChange({ ...budget, limit: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                        disabled={disabled}
+                        className="w-28 rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-3">
+                    When reached
+                    <select
+                        value={budget.action}
+                        onChange={(e) => onBudgetChange({ ...budget, action: e.target.value as BudgetAction })}
+                        disabled={disabled}
+                        className="rounded-md border-0 bg-gray-700 py-1.5 px-2 text-white ring-1 ring-inset ring-gray-600"
+                    >
+                        <option value="pause">Pause (can continue anyway)</option>
+                        <option value="block">Block further calls</option>
+                    </select>
+                </label>
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-gray-400">
+                            <th className="text-left font-medium">Model</th>
+                            {PRICING_FIELDS.map(({ key, label }) => <th key={key} className="text-right font-medium">{label}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {pricedModels.map(model => (
+                            <tr key={model}>
+                                <td className="pr-2 font-mono break-all">{model}</td>
+                                {PRICING_FIELDS.map(({ key }) => (
+                                    <td key={key} className="pl-1 py-0.5">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.001"
+                                            value={pricing[model]?.[key] ?? 0}
+                                            onChange={(e) => handlePriceChange(model, key, e.target.value)}
+                                            aria-label={`${model} ${key}`}
+                                            className="w-20 rounded-md border-0 bg-white/5 py-0.5 px-1 text-right text-white ring-1 ring-inset ring-gray-600"
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-xs text-gray-500">Prices apply to calls made from now on; the ledger keeps what each call cost at the time.</p>
+                {ledger.length > 0 && (
+                    <>
+                        <div className="flex items-center justify-between">
+                            <span>{ledger.length} call(s), total <span className="font-semibold text-gray-200">${total.toFixed(5)}</span></span>
+                            <button
+                                onClick={onDownloadCsv}
+                                className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500"
+                            >
+                                Download CSV
+                            </button>
+                        </div>
+                        <ul className="text-xs text-gray-400">
+                            {byPurpose.map(({ purpose, calls, cost }) => (
+                                <li key={purpose} className="flex justify-between">
+                                    <span>{CALL_PURPOSE_LABELS[purpose]} &times; {calls}</span>
+                                    <span className="font-mono">${cost.toFixed(5)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="max-h-48 overflow-y-auto">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-gray-400">
+                                        <th className="text-left font-medium">Call</th>
+                                        <th className="text-left font-medium">Model</th>
+                                        <th className="text-right font-medium">Tokens in/out</th>
+                                        <th className="text-right font-medium">Images</th>
+                                        <th className="text-right font-medium">Cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {ledger.map((entry, i) => (
+                                        <tr key={i} title={entry.timestamp}>
+                                            <td>{CALL_PURPOSE_LABELS[entry.purpose]}{entry.frameIndex !== undefined && ` (frame ${entry.frameIndex + 1})`}</td>
+                                            <td className="font-mono break-all">{entry.model}</td>
+                                            <td className="text-right font-mono">{entry.inputTokens}/{entry.outputTokens}</td>
+                                            <td className="text-right font-mono">{entry.images}</td>
+                                            <td className="text-right font-mono">${entry.cost.toFixed(5)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+            </div>
+        </details>
+    );
+};
+
+const AlignmentPanel = ({
+    referenceFrame,
+    settings,
+    transforms,
+    disabled,
+    canRevert,
+    onChange,
+    onAlign,
+    onRevert,
+}: {
+    referenceFrame: string;
+    settings: AlignmentSettings;
+    transforms: FrameTransform[] | null;
+    disabled: boolean;
+    canRevert: boolean;
+    onChange: (settings: AlignmentSettings) => void;
+    onAlign: () => void;
+    onRevert: () => void;
+}) => {
+    // Clicking the reference frame places the anchor, in normalized coordinates
+    const handleReferenceClick = (e: React.MouseEvent<HTMLImageElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onChange({ ...settings, anchor: { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height } });
+    };
+
+    return (
+        <div className="w-full mt-6 text-left text-sm text-gray-300">
+            <h3 className="text-lg font-semibold text-gray-200 mb-2">Alignment</h3>
+            <div className="flex flex-wrap items-start gap-4">
+                {settings.mode === 'anchor' && (
+                    <div className="relative w-32 flex-none">
+                        <img src={referenceFrame} alt="Reference frame" onClick={handleReferenceClick} className="w-full rounded bg-gray-700 cursor-crosshair" />
+                        <span
+                            className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-pink-500 ring-2 ring-white pointer-events-none"
+                            style={{ left: `${settings.anchor.x * 100}%`, top: `${settings.anchor.y * 100}%` }}
+                        />
+                    </div>
+                )}
+                <div className="flex flex-1 flex-col gap-3">
+                    <label className="flex items-center justify-between gap-3">
+                        Register by
+                        <select
+                            value={settings.mode}
+                            onChange={(e) => onChange({ ...settings, mode: e.target.value as AlignmentMode })}
+                            className="rounded-md border-0 bg-gray-700 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                        >
+                            {(Object.keys(ALIGNMENT_MODE_LABELS) as AlignmentMode[]).map(mode => (
+                                <option key={mode} value={mode}>{ALIGNMENT_MODE_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {settings.mode === 'anchor' && <p className="text-xs text-gray-500">Click the reference frame to place the anchor on a point that should not move.</p>}
+                    <label className="flex items-center justify-between gap-3">
+                        Max shift: {Math.round(settings.maxShift * 100)}%
+                        <input
+                            type="range"
+                            min="0.01"
+                            max="0.15"
+                            step="0.01"
+                            value={settings.maxShift}
+                            onChange={(e) => onChange({ ...settings, maxShift: Number(e.target.value) })}
+                            className="w-40 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                        />
+                    </label>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={onAlign}
+                            disabled={disabled}
+                            className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Align Frames
+                        </button>
+                        <button
+                            onClick={onRevert}
+                            disabled={disabled || !canRevert}
+                            className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Revert Alignment
+                        </button>
+                    </div>
+                    {transforms && (
+                        <p className="text-xs font-mono text-gray-500">
+                            {transforms.map((t, i) => `${i + 1}: ${t.dx},${t.dy} ×${t.scale}`).join('  ')}
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+// Helper to show a byte count in the largest fitting unit
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+// Sessions not changed for this many days can be cleaned up
+const CLEANUP_AGE_OPTIONS = [7, 30, 90];
+
+const SessionGallery = ({
+    sessions,
+    currentSessionId,
+    storageEstimate,
+    disabled,
+    onOpen,
+    onDuplicate,
+    onDelete,
+    onCleanUp,
+}: {
+    sessions: SessionSummary[];
+    currentSessionId: string | null;
+    // What the browser reports for this site, when it does.
+    storageEstimate: { usage: number; quota: number } | null;
+    disabled: boolean;
+    onOpen: (id: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    // Deletes every session, except the current one, not changed for `days` days
+    onCleanUp: (days: number) => void;
+}) => {
+    const [search, setSearch] = useState('');
+    const [cleanupAge, setCleanupAge] = useState(CLEANUP_AGE_OPTIONS[1]);
+
+    const query = search.trim().toLowerCase();
+    const shown = query ? sessions.filter(session => session.prompt.toLowerCase().includes(query)) : sessions;
+    const totalSize = sessions.reduce((sum, session) => sum + session.sizeBytes, 0);
+
+    const handleDelete = (session: SessionSummary) => {
+        if (window.confirm(`Delete the session "${session.prompt || 'Untitled'}"? This cannot be undone.`)) onDelete(session.id);
+    };
+
+    const handleCleanUp = () => {
+        if (window.confirm(`Delete every session not changed in the last ${cleanupAge} days? This cannot be undone.`)) onCleanUp(cleanupAge);
+    };
+
+    return (
+        <details className="w-full max-w-5xl mb-6 rounded-lg bg-gray-800 px-4 py-3 text-sm text-gray-300">
+            <summary className="cursor-pointer font-medium">Session Gallery ({sessions.length})</summary>
+            <div className="mt-3 flex flex-col gap-3">
+                <p className="text-xs text-gray-500">Every generation is saved in this browser as it goes, and survives reloading the page. Duplicate a session to start a new run from the same image, prompt and plan.</p>
+                <div className="flex flex-wrap items-center gap-3">
+                    <input
+                        type="search"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="Search by prompt"
+                        className="min-w-48 flex-1 rounded-md bg-gray-700 px-2 py-1 text-gray-200 ring-1 ring-inset ring-gray-600"
+                    />
+                    <span className="text-xs text-gray-400">
+                        {formatBytes(totalSize)} in {sessions.length} session(s)
+                        {storageEstimate && <> · {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used by this site</>}
+                    </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span>Clean up sessions older than</span>
+                    <select value={cleanupAge} onChange={e => setCleanupAge(Number(e.target.value))} className="rounded-md bg-gray-700 px-2 py-1 text-gray-200">
+                        {CLEANUP_AGE_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                    </select>
+                    <button onClick={handleCleanUp} disabled={disabled || sessions.length === 0} className="rounded-md bg-gray-700 px-3 py-1 font-semibold text-white ring-1 ring-inset ring-gray-600 hover:bg-gray-600 disabled:opacity-50">
+                        Clean Up
+                    </button>
+                </div>
+                {shown.length === 0 ? (
+                    <p className="text-xs text-gray-500">{sessions.length === 0 ? 'No saved sessions yet.' : 'No session matches the search.'}</p>
+                ) : (
+                    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4">
+                        {shown.map(session => (
+                            <div key={session.id} className={`flex flex-col gap-2 rounded-lg bg-black/20 p-2 ${session.id === currentSessionId ? 'ring-2 ring-purple-500' : ''}`}>
+                                {session.thumbnail ? (
+                                    <img src={session.thumbnail} alt={session.prompt} className="h-24 w-full rounded bg-gray-700 object-contain" />
+                                ) : (
+                                    <div className="h-24 w-full rounded bg-gray-700" />
+                                )}
+                                <p className="line-clamp-2 text-xs text-gray-200" title={session.prompt}>{session.prompt || 'Untitled'}</p>
+                                <p className="text-xs text-gray-500">
+                                    {new Date(session.updatedAt).toLocaleString()}<br />
+                                    {session.finishedFrames}/{session.frameCount} frames · ${session.cost.toFixed(3)} · {formatBytes(session.sizeBytes)}
+                                </p>
+                                <div className="flex gap-2 text-xs">
+                                    <button onClick={() => onOpen(session.id)} disabled={disabled || session.id === currentSessionId} className="font-semibold text-purple-300 hover:text-purple-200 disabled:opacity-50">Open</button>
+                                    <button onClick={() => onDuplicate(session.id)} disabled={disabled} className="text-gray-400 hover:text-gray-200 disabled:opacity-50">Duplicate</button>
+                                    <button onClick={() => handleDelete(session)} disabled={disabled} className="ml-auto text-gray-400 hover:text-red-400 disabled:opacity-50">Delete</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+const App = () => {
+    const [prompt, setPrompt] = useState('');
+    const [initialImage, setInitialImage] = useState<string | null>(null);
+    const [initialImageHasTransparency, setInitialImageHasTransparency] = useState(false);
+    const [generatedFrames, setGeneratedFrames] = useState<(string | null)[]>([]);
+    const [frameHistory, setFrameHistory] = useState<(FrameSlotHistory | null)[]>([]);
+    const [undoStack, setUndoStack] = useState<HistoryAction[]>([]);
+    const [redoStack, setRedoStack] = useState<HistoryAction[]>([]);
+    const [historyFrameIndex, setHistoryFrameIndex] = useState<number | null>(null);
+    const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN_SETTINGS);
+    const [timeline, setTimeline] = useState<Timeline>(() => createTimeline(0));
+    const [backgroundSettings, setBackgroundSettings] = useState<BackgroundSettings>(DEFAULT_BACKGROUND_SETTINGS);
+    const [pixelArtSettings, setPixelArtSettings] = useState<PixelArtSettings>(DEFAULT_PIXEL_ART_SETTINGS);
+    // The pixel grid and palette of the uploaded sprite, in pixel-art mode
+    const [pixelGrid, setPixelGrid] = useState<PixelGrid | null>(null);
+    const [inputBackground, setInputBackground] = useState<BackgroundInfo | null>(null);
+    const [frameScores, setFrameScores] = useState<(FrameScore | null)[]>([]);
+    const [alignmentSettings, setAlignmentSettings] = useState<AlignmentSettings>(DEFAULT_ALIGNMENT_SETTINGS);
+    // The last alignment pass: which versions it replaced and how each frame was moved
+    const [alignment, setAlignment] = useState<{ changes: VersionChange[]; transforms: FrameTransform[] } | null>(null);
+    const [framePrompts, setFramePrompts] = useState<Record<string, string>[]>([]);
+    const [frameErrors, setFrameErrors] = useState<(string | null)[]>([]);
+    const [pendingCheckpoint, setPendingCheckpoint] = useState<Checkpoint | null>(null);
+    // The gallery session the current run is saved to; a new one starts with the next save
+    const [session, setSession] = useState<SessionRef | null>(null);
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [progress, setProgress] = useState(0);
+    const [isCyclic, setIsCyclic] = useState(false);
+    const [loadingMessage, setLoadingMessage] = useState('');
+    const [estimatedCost, setEstimatedCost] = useState(0);
+    const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+    const [pricing, setPricing] = useState<PricingTable>(DEFAULT_PRICING);
+    const [budget, setBudget] = useState<BudgetSettings>(DEFAULT_BUDGET_SETTINGS);
+    // Set when a run stopped at the budget in 'pause' mode, so it can be continued anyway
+    const [budgetPaused, setBudgetPaused] = useState(false);
+    const [fps, setFps] = useState(5);
+    const [numFrames, setNumFrames] = useState(DEFAULT_NUM_FRAMES);
+    const [rig, setRig] = useState<RigSettings>(DEFAULT_RIG_SETTINGS);
+    // Artist-drawn images uploaded into frame slots, indexed by slot
+    const [keyframes, setKeyframes] = useState<(string | null)[]>([]);
+    // How many frames "Insert In-betweens" adds between the two selected frames
+    const [insertCount, setInsertCount] = useState(1);
+    // In set mode, the main view shows the set's active action
+    const [animationSet, setAnimationSet] = useState<AnimationSet | null>(null);
+    const [isGeneratingSet, setIsGeneratingSet] = useState(false);
+    // The current animation redone facing every direction, once started
+    const [directionSettings, setDirectionSettings] = useState<DirectionSettings>(DEFAULT_DIRECTION_SETTINGS);
+    const [directionVariants, setDirectionVariants] = useState<DirectionVariant[] | null>(null);
+    const [isGeneratingDirections, setIsGeneratingDirections] = useState(false);
+    // Labelled views of the character, sent along with the style-lock image
+    const [referenceSheet, setReferenceSheet] = useState<ReferenceSheetImage[]>([]);
+    // A motion reference (GIF, video or image sequence) and its frames, sampled to the frame count
+    const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+    const [referenceFrames, setReferenceFrames] = useState<string[]>([]);
+    const [isLoadingReference, setIsLoadingReference] = useState(false);
+    const [referenceError, setReferenceError] = useState<string | null>(null);
+    // The custom part list as typed; the rig keeps the parsed parts
+    const [customRigText, setCustomRigText] = useState(() => formatCustomParts(DEFAULT_RIG_SETTINGS.customParts));
+    const [loop, setLoop] = useState(true);
+    const [isExporting, setIsExporting] = useState(false);
+    const [spriteSheetLayout, setSpriteSheetLayout] = useState<SpriteSheetLayout>('grid');
+    const [atlasFormat, setAtlasFormat] = useState<AtlasFormat>('hash');
+    const [selectedFrameIndices, setSelectedFrameIndices] = useState<number[]>([]);
+    const [editingFrameIndices, setEditingFrameIndices] = useState<number[] | null>(null);
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+    const [replayRecording, setReplayRecording] = useState<Recording | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Spend so far plus the estimates of calls in flight. Parallel in-betweens check the
+    // budget before React state catches up, so this is kept in a ref.
+    const spentRef = useRef(0);
+    // Lets the current run go past the budget after the user chose to continue anyway
+    const budgetOverrideRef = useRef(false);
+    // Every call recorded in record mode. Editing the provider settings builds a new
+    // provider, so the recording is kept here rather than in it.
+    const recordedCallsRef = useRef<RecordedCall[]>([]);
+    // The grid of the last sprite prepared on upload, with the image it belongs to
+    const preparedGridRef = useRef<{ image: string; grid: PixelGrid } | null>(null);
+    // Whether a generation run was in progress at the last scoring, to tell when one finishes
+    const wasLoadingRef = useRef(false);
+    // Set when a run has finished and its outliers are still to be pre-selected
+    const selectOutliersRef = useRef(false);
+
+    const provider = useMemo(() => {
+        switch (providerSettings.kind) {
+            case 'mock': return createMockProvider();
+            case 'record': return createRecordingProvider(createGeminiProvider(providerSettings), recordedCallsRef.current);
+            case 'replay': return createReplayProvider(replayRecording ?? { format: 'animabanana-recording', version: 1, calls: [] });
+            default: return createGeminiProvider(providerSettings);
+        }
+    }, [providerSettings, replayRecording]);
+
+    // The timeline as it applies to the current frames
+    const activeTimeline = useMemo(() => normalizeTimeline(timeline, generatedFrames.length), [timeline, generatedFrames.length]);
+
+    // Offer to restore a run that was interrupted, e.g. by a page reload mid-generation
+    useEffect(() => {
+        loadCheckpoint()
+            .then(checkpoint => {
+                if (checkpoint && checkpoint.generatedFrames.some(frame => frame === null)) {
+                    setPendingCheckpoint(checkpoint);
+                }
+            })
+            .catch(err => console.error("Failed to load checkpoint.", err));
+        refreshGallery();
+    }, []);
+
+    // Keep a checkpoint of unfinished runs; a complete run no longer needs one
+    useEffect(() => {
+        if (!initialImage || framePrompts.length === 0 || generatedFrames.length === 0) return;
+        if (generatedFrames.every(frame => frame !== null)) {
+            clearCheckpoint().catch(err => console.error("Failed to clear checkpoint.", err));
+            return;
+        }
+        saveCheckpoint({
+            prompt,
+            initialImage,
+            initialImageHasTransparency,
+            framePrompts,
+            generatedFrames,
+            frameHistory,
+            timeline,
+            frameErrors,
+            isCyclic,
+            fps,
+            loop,
+            numFrames,
+            estimatedCost,
+            ledger,
+            rig,
+            referenceSheet,
+            savedAt: new Date().toISOString(),
+            session,
+        }).catch(err => console.error("Failed to save checkpoint.", err));
+    }, [generatedFrames, frameErrors]);
+
+    // Save every run to the gallery once it has a plan. Changes come in bursts while
+    // frames generate, so saving waits until they settle. Nothing is saved while a new plan
+    // is on its way, since the run it replaces has already been saved.
+    useEffect(() => {
+        if (!initialImage || framePrompts.length === 0 || isPlanning) return;
+        const timer = setTimeout(() => {
+            const current = session ?? { id: createSessionId(), createdAt: new Date().toISOString() };
+            if (!session) setSession(current);
+            createThumbnail(generatedFrames.find(Boolean) ?? initialImage, SESSION_THUMBNAIL_SIZE)
+                .then(thumbnail => saveSession({
+                    ...current,
+                    updatedAt: new Date().toISOString(),
+                    prompt,
+                    initialImage,
+                    initialImageHasTransparency,
+                    framePrompts,
+                    generatedFrames,
+                    frameHistory,
+                    timeline,
+                    isCyclic,
+                    fps,
+                    loop,
+                    numFrames,
+                    estimatedCost,
+                    ledger,
+                    rig,
+                    referenceSheet,
+                }, thumbnail))
+                .then(refreshGallery)
+                .catch(err => console.error("Failed to save session.", err));
+        }, SESSION_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [initialImage, prompt, framePrompts, frameHistory, timeline, isCyclic, fps, loop, numFrames, ledger, rig, referenceSheet, isPlanning]);
+
+    // Detect the background of the uploaded image; the 'original' backdrop reuses it
+    useEffect(() => {
+        setInputBackground(null);
+        if (!initialImage) return;
+        let cancelled = false;
+        dataUrlToImageData(initialImage)
+            .then(image => { if (!cancelled) setInputBackground(analyzeBackground(image)); })
+            .catch(err => console.error("Failed to analyze the background.", err));
+        return () => { cancelled = true; };
+    }, [initialImage]);
+
+    // Sample the motion reference to the frame count whenever either changes
+    useEffect(() => {
+        setReferenceFrames([]);
+        setReferenceError(null);
+        if (referenceFiles.length === 0) return;
+        let cancelled = false;
+        setIsLoadingReference(true);
+        loadReference(referenceFiles, numFrames)
+            .then(frames => { if (!cancelled) setReferenceFrames(frames); })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Failed to load the motion reference.", err);
+                setReferenceError(err instanceof Error ? err.message : "Could not read the motion reference.");
+            })
+            .finally(() => { if (!cancelled) setIsLoadingReference(false); });
+        return () => { cancelled = true; };
+    }, [referenceFiles, numFrames]);
+
+    // Find the sprite's pixel grid and palette in pixel-art mode. A sprite prepared on upload
+    // already knows its grid; any other image has it detected.
+    useEffect(() => {
+        setPixelGrid(null);
+        if (!pixelArtSettings.enabled || !initialImage) return;
+        if (preparedGridRef.current?.image === initialImage) {
+            setPixelGrid(preparedGridRef.current.grid);
+            return;
+        }
+        let cancelled = false;
+        dataUrlToImageData(initialImage)
+            .then(image => { if (!cancelled) setPixelGrid(analyzePixelGrid(image)); })
+            .catch(err => console.error("Failed to analyze the pixel grid.", err));
+        return () => { cancelled = true; };
+    }, [initialImage, pixelArtSettings.enabled]);
+
+    // Score finished runs for consistency. The outliers are pre-selected for correction only
+    // when a generation run has just finished; later edits just update the scores, so they
+    // never replace the user's own selection.
+    useEffect(() => {
+        // Direction runs leave the main view's frames alone, so they have no outliers to select
+        if (wasLoadingRef.current && !isLoading && !isGeneratingDirections) selectOutliersRef.current = true;
+        wasLoadingRef.current = isLoading;
+        setFrameScores([]);
+        if (isLoading || !initialImage || generatedFrames.length === 0 || generatedFrames.some(frame => frame === null)) {
+            // A run that stopped with frames missing has nothing to pre-select
+            if (!isLoading) selectOutliersRef.current = false;
+            return;
+        }
+        let cancelled = false;
+        scoreFrames(generatedFrames, initialImage)
+            .then(scores => {
+                if (cancelled) return;
+                setFrameScores(scores);
+                if (!selectOutliersRef.current) return;
+                selectOutliersRef.current = false;
+                setSelectedFrameIndices(scores.flatMap((score, index) => score?.outlier ? [index] : []));
+            })
+            .catch(err => console.error("Failed to score the frames.", err));
+        return () => { cancelled = true; };
+    }, [generatedFrames, isLoading, initialImage]);
+
+    // Undo/redo shortcuts, unless the user is typing
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
+
+    // Shows the active version of every slot; frames always come from the history
+    const applyHistory = (history: (FrameSlotHistory | null)[]) => {
+        setFrameHistory(history);
+        setGeneratedFrames(getActiveFrames(history));
+    };
+
+    // Cleans up the background of a freshly generated frame, if enabled, and snaps it to the
+    // pixel grid in pixel-art mode. Frames whose background can't be keyed keep it.
+    const postProcessFrame = async (frame: string, settings = backgroundSettings): Promise<string> => {
+        let processed = frame;
+        if (settings.enabled) {
+            const cleaned = cleanUpBackground(await dataUrlToImageData(frame), inputBackground ?? { kind: 'complex', color: [0, 0, 0] }, settings);
+            if (cleaned) processed = imageDataToDataUrl(cleaned);
+        }
+        return pixelGrid ? snapFrame(processed, pixelGrid) : processed;
+    };
+
+    const snapFrame = async (frame: string, grid: PixelGrid): Promise<string> =>
+        imageDataToDataUrl(snapToPixelGrid(await dataUrlToImageData(frame), grid, pixelArtSettings.paletteLock));
+
+    const resetHistory = (history: (FrameSlotHistory | null)[]) => {
+        applyHistory(history);
+        setUndoStack([]);
+        setRedoStack([]);
+        setHistoryFrameIndex(null);
+        setAlignment(null);
+        // Directions belong to the animation they were made from
+        setDirectionVariants(null);
+    };
+
+
+    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) {
+            resetHistory([]);
+            setTimeline(createTimeline(0));
+            setFrameErrors([]);
+            setFramePrompts([]);
+            setKeyframes([]);
+            setSession(null);
+            setError(null);
+            setInitialImage(null);
+            setInitialImageHasTransparency(false);
+            setSelectedFrameIndices([]);
+            setEditingFrameIndices(null);
+
+            const reader = new FileReader();
+            reader.onload = (event) => {
+                const img = new Image();
+                img.onload = () => {
+                    const canvas = document.createElement('canvas');
+                    const MAX_DIMENSION = 512;
+                    let { width, height } = img;
+
+                    if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+                        if (width > height) {
+                            height = Math.round(height * (MAX_DIMENSION / width));
+                            width = MAX_DIMENSION;
+                        } else {
+                            width = Math.round(width * (MAX_DIMENSION / height));
+                            height = MAX_DIMENSION;
+                        }
+                    }
+
+                    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+                    if (ctx) {
+                        // Pixel art is brought to its native grid and scaled up without smoothing
+                        // instead, unless it is too large to be pixel art
+                        let sprite: ReturnType<typeof prepareSprite> = null;
+                        if (pixelArtSettings.enabled) {
+                            canvas.width = img.width;
+                            canvas.height = img.height;
+                            ctx.drawImage(img, 0, 0);
+                            sprite = prepareSprite(ctx.getImageData(0, 0, img.width, img.height), pixelArtSettings.pixelSize);
+                        }
+                        if (sprite) {
+                            canvas.width = sprite.image.width;
+                            canvas.height = sprite.image.height;
+                            ctx.putImageData(sprite.image, 0, 0);
+                        } else {
+                            canvas.width = width;
+                            canvas.height = height;
+                            ctx.drawImage(img, 0, 0, width, height);
+                        }
+                        const dataUrl = canvas.toDataURL('image/png');
+                        preparedGridRef.current = sprite && { image: dataUrl, grid: sprite.grid };
+                        setInitialImage(dataUrl);
+                        setInitialImageHasTransparency(checkTransparency(canvas));
+                    } else {
+                        setError("Could not process image.");
+                    }
+                };
+                img.onerror = () => {
+                    setError("Could not load the selected image file.");
+                };
+                if (event.target?.result) {
+                    img.src = event.target.result as string;
+                }
+            };
+            reader.onerror = () => {
+                setError("Could not read the selected file.");
+            };
+            reader.readAsDataURL(file);
+        }
+    };
+
+    // Starts a cancellable operation; the Cancel button aborts the returned signal
+    const startCancellable = (): AbortSignal => {
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        return abortController.signal;
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Sets the running cost, e.g. when starting over or opening a project
+    const resetCost = (cost: number) => {
+        setEstimatedCost(cost);
+        spentRef.current = cost;
+    };
+
+    // Reserves `estimate` against the budget, or throws if the call would go over it
+    const reserveBudget = (estimate: number) => {
+        if (budget.limit !== null && !budgetOverrideRef.current && spentRef.current + estimate > budget.limit) {
+            throw new BudgetExceededError(budget.limit, budget.action);
+        }
+        spentRef.current += estimate;
+    };
+
+    // Books a finished call: its actual cost replaces the reserved estimate
+    const recordCall = (entry: Omit<LedgerEntry, 'timestamp'>, estimate: number) => {
+        spentRef.current += entry.cost - estimate;
+        setEstimatedCost(prev => prev + entry.cost);
+        setLedger(prev => [...prev, { ...entry, timestamp: new Date().toISOString() }]);
+    };
+
+    const meteredPlan = async (request: PlanRequest, purpose: CallPurpose, frames: number): Promise<PlanResponse> => {
+        const model = getModelName(providerSettings, 'plan');
+        const estimate = estimatePlanCallCost(pricing, model, request.prompt, frames, request.images?.length);
+        reserveBudget(estimate);
+        let response: PlanResponse;
+        try {
+            response = await provider.plan(request);
+        } catch (err) {
+            spentRef.current -= estimate;
+            throw err;
+        }
+        recordCall({
+            model,
+            purpose,
+            inputTokens: response.usage?.promptTokenCount ?? 0,
+            outputTokens: response.usage?.candidatesTokenCount ?? 0,
+            images: 0,
+            cost: getCallCost(pricing, model, response.usage, 0),
+        }, estimate);
+        return response;
+    };
+
+    const meteredEditImage = async (request: ImageEditRequest, purpose: CallPurpose, frameIndex?: number): Promise<MeteredImageResponse> => {
+        const model = getModelName(providerSettings, 'editImage');
+        const estimate = estimateImageCallCost(pricing, model, request.prompt, request.images.length);
+        reserveBudget(estimate);
+        let response: ImageEditResponse;
+        try {
+            response = await provider.editImage(request);
+        } catch (err) {
+            spentRef.current -= estimate;
+            throw err;
+        }
+        const images = response.image ? 1 : 0;
+        const cost = getCallCost(pricing, model, response.usage, images);
+        recordCall({
+            model,
+            purpose,
+            frameIndex,
+            inputTokens: response.usage?.promptTokenCount ?? 0,
+            outputTokens: response.usage?.candidatesTokenCount ?? 0,
+            images,
+            cost,
+        }, estimate);
+        return { ...response, cost };
+    };
+
+    // Sends a planner prompt, with any reference `images`, and validates that it returns exactly `count` pose objects
+    const requestPlan = async (plannerPrompt: string, count: number, purpose: CallPurpose, signal: AbortSignal, images?: string[]): Promise<Record<string, string>[]> => {
+        const promptGenResponse = await meteredPlan({ prompt: plannerPrompt, responseSchema: buildPlanSchema(count, rig), images, signal }, purpose, count);
+
+        const generatedPrompts = JSON.parse(promptGenResponse.text);
+        if (!Array.isArray(generatedPrompts) || generatedPrompts.length !== count || !generatedPrompts.every(p => typeof p === 'object' && p !== null)) {
+            throw new Error('The AI failed to generate a valid animation plan. Please try a different prompt.');
+        }
+        return generatedPrompts as Record<string, string>[];
+    };
+
+    const generatePlan = async () => {
+        if (!prompt) {
+            setError("Please describe the animation first.");
+            return;
+        }
+
+        setIsPlanning(true);
+        setError(null);
+        const signal = startCancellable();
+        // Where the planning call's spend starts, so a new run can begin with just that call
+        const spentBefore = spentRef.current;
+        const ledgerStart = ledger.length;
+
+        // The reference is re-sampled whenever the frame count changes; until then it is left out
+        const reference = referenceFrames.length === numFrames ? referenceFrames : [];
+        const plannerPrompt = buildPlannerPrompt(prompt, numFrames, isCyclic, rig, reference.length);
+        try {
+            const plan = await requestPlan(plannerPrompt, numFrames, 'plan', signal, reference);
+            setFramePrompts(plan);
+            // A new plan is a new run, saved to the gallery next to the previous one. A failed
+            // plan leaves the previous run, its session and its costs as they were.
+            setSession(null);
+            // A set's actions share one cost ledger
+            if (!animationSet) {
+                resetCost(spentRef.current - spentBefore);
+                setLedger(prev => prev.slice(ledgerStart));
+            }
+        } catch (err) {
+            if (signal.aborted) return;
+            console.error(err);
+            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            setError("Failed to generate animation plan. " + message);
+        } finally {
+            abortControllerRef.current = null;
+            setIsPlanning(false);
+        }
+    };
+
+    // Re-plans frames `start`..`end` (inclusive) so they flow from and into the frames around them
+    const replanFrames = async (start: number, end: number, guidance: string) => {
+        const count = end - start + 1;
+        setIsPlanning(true);
+        setError(null);
+        const signal = startCancellable();
+
+        const plannerPrompt = `
+You are a master animator and puppeteer revising part of an existing ${framePrompts.length}-frame animation plan for a motion photoshoot.
+User's request: "${prompt}"
+${getCyclicText(isCyclic)}
+
+This is the current plan, one JSON object per frame (frame 1 first):
+\`\`\`json
+${JSON.stringify(framePrompts, null, 2)}
+\`\`\`
+
+Your task is to rewrite ONLY frames ${start + 1} to ${end + 1}. The rewritten frames must continue smoothly from ${start > 0 ? `frame ${start}` : 'the start of the animation'} and lead smoothly into ${end < framePrompts.length - 1 ? `frame ${end + 2}` : 'the end of the animation'}.
+${guidance ? `Additional direction for these frames: "${guidance}"` : ''}
+
+**CRITICAL RULE:** The character's core appearance, art style, colors, proportions, and accessories MUST remain consistent. You are directing a model, not redesigning a character.
+
+Output your response as a JSON array of exactly ${count} objects, one per rewritten frame in order, each with the keys: ${Object.keys(getPoseProperties(rig)).map(key => `"${key}"`).join(', ')}.
+The character is posed by these parts:
+${describeRig(rig)}
+`;
+        try {
+            const replanned = await requestPlan(plannerPrompt, count, 'replan', signal);
+            setFramePrompts(prev => [...prev.slice(0, start), ...replanned, ...prev.slice(end + 1)]);
+        } catch (err) {
+            if (signal.aborted) return;
+            console.error(err);
+            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            setError("Failed to re-plan frames. " + message);
+        } finally {
+            abortControllerRef.current = null;
+            setIsPlanning(false);
+        }
+    };
+
+    // Generates every frame that is still missing from `startHistory`, in dependency order:
+    // the first frame, then the last frame, then the in-betweens level by level. `run` names
+    // the plan and the style-lock image, so an animation set can run each of its actions.
+    const runGeneration = async (startHistory: (FrameSlotHistory | null)[], run: GenerationRun): Promise<GenerationResult | null> => {
+        const { framePrompts, isCyclic, styleLock, referenceSheet = [], keyframes = [], facing, onFrames, resumeLabel = 'Resume' } = run;
+        if (!styleLock || framePrompts.length === 0) {
+            setError("Please provide an image and generate an animation plan first.");
+            return null;
+        }
+
+        const frameCount = framePrompts.length;
+        // Empty slots with an uploaded keyframe start out with it, so they are never generated
+        let historyData = framePrompts.map((_, i) => startHistory[i] ?? (keyframes[i] ? {
+            versions: [{ image: keyframes[i]!, source: 'keyframe' as const, label: 'Keyframe (uploaded)', prompt: '', cost: 0, createdAt: new Date().toISOString() }],
+            active: 0,
+        } : null));
+        const allFramesData = getActiveFrames(historyData);
+        // Every frame that already exists (keyframes, or frames of an earlier run) anchors the gaps around it
+        const fixedIndices = allFramesData.flatMap((frame, i) => frame ? [i] : []);
+        const frameErrorsData = new Array<string | null>(frameCount).fill(null);
+        // Set when a call was refused because it would go over the budget
+        let budgetError: BudgetExceededError | null = null;
+        let complete = false;
+        const result = (): GenerationResult => ({ history: historyData, errors: frameErrorsData, complete });
+
+        setIsLoading(true);
+        setError(null);
+        setBudgetPaused(false);
+        const signal = startCancellable();
+        setProgress(allFramesData.filter(Boolean).length);
+        if (onFrames) {
+            onFrames(historyData, [...frameErrorsData]);
+        } else {
+            setPendingCheckpoint(null);
+            if (startHistory.length === 0) {
+                resetHistory(historyData);
+                setTimeline(createTimeline(frameCount));
+            } else {
+                applyHistory(historyData);
+            }
+            setFrameErrors([...frameErrorsData]);
+            setSelectedFrameIndices([]);
+        }
+        
+        const backgroundInstruction = getBackgroundInstruction(initialImageHasTransparency);
+        const sheetImages = getSheetImages(referenceSheet);
+        // Helper to introduce the sheet images in a prompt, when they follow `imagesBefore` other images
+        const getSheetText = (imagesBefore: number) => sheetImages.length > 0
+            ? ` The next ${sheetImages.length} image(s) are labelled views from the character's reference sheet:\n${describeReferenceSheet(referenceSheet, imagesBefore + 1)}\n`
+            : '';
+
+        const publishFrames = () => {
+            if (onFrames) {
+                onFrames(historyData, [...frameErrorsData]);
+                return;
+            }
+            applyHistory(historyData);
+            setFrameErrors([...frameErrorsData]);
+        };
+
+        // Stores a finished frame as a new version of its slot
+        const recordFrame = (index: number, image: string, prompt: string, cost: number, label = `Generated: ${framePrompts[index]?.notes ?? ''}`) => {
+            allFramesData[index] = image;
+            historyData = addVersion(historyData, index, { image, source: 'generation', label, prompt, cost, createdAt: new Date().toISOString() });
+        };
+
+        // Helper to generate a single frame between a start and end point
+        const generateSingleFrame = async ({ start: startIndex, end: endIndex, index: midIndex }: InBetweenTask, framePrompts: Record<string, string>[], originalImage: string): Promise<{ index: number; frame: string | null; prompt?: string; cost?: number; error?: string }> => {
+            const missingIndex = [startIndex, endIndex].find(i => !allFramesData[i]);
+            if (missingIndex !== undefined) {
+                return { index: midIndex, frame: null, error: `Depends on frame ${missingIndex + 1}, which is missing.` };
+            }
+
+            try {
+                // Compare the target pose with the start pose to find what's different
+                const { changedParts, unchangedParts } = diffPoses(framePrompts[startIndex], framePrompts[midIndex], rig);
+
+                const changeDescription = changedParts.length > 0 
+                    ? changedParts.map(part => `  - ${part}: ${framePrompts[midIndex][part]}`).join('\n')
+                    : "  - No direct pose changes, but follow the 'notes' for this frame: " + framePrompts[midIndex]['notes'];
+                
+                const unchangedDescription = unchangedParts.length > 0 ? unchangedParts.join(', ') : 'All other parts';
+
+
+                const refinedPrompt = `
+You are an expert animator executing a single, precise instruction for a motion photoshoot.
+
+**REFERENCE IMAGES:**
+1.  **Original Image (Style Lock):** This is the "ground truth" for the character's appearance. The final output's art style, colors, and proportions MUST match this image with 100% fidelity.
+${sheetImages.length > 0 ? describeReferenceSheet(referenceSheet, 2) + '\n' : ''}${sheetImages.length + 2}.  **Start Frame:** This is the frame you will be modifying.
+${sheetImages.length + 3}.  **End Frame:** This provides context for the end of the motion.
+
+**PRIMARY GOAL:** Your task is to perform a minimal, surgical modification to the "Start Frame".
+
+**CHARACTER PARTS:** The character is posed by these parts, and only these:
+${describeRig(rig)}
+
+**INSTRUCTIONS FOR THIS FRAME:**
+
+1.  **STEP 1: REPLICATE:** Start by creating a perfect, pixel-for-pixel copy of the "Start Frame".
+2.  **STEP 2: MODIFY:** Apply ONLY the following changes. DO NOT TOUCH any other part of the character.
+    -   **UNCHANGED PARTS:** The following parts MUST remain IDENTICAL to the "Start Frame": **${unchangedDescription}**
+    -   **CHANGED PARTS:** Modify ONLY these parts to match their new description:
+${changeDescription}
+
+**CRUCIAL RULES:**
+- **MINIMAL CHANGE:** This is your most important rule. Do not get creative. Do not reinterpret the character. Your job is to execute a tiny, specific change.
+- **STYLE FIDELITY:** The final image must look exactly like the "Original Image" in terms of style.${facing ? `
+- **FACING:** The character is seen ${describeDirection(facing)}, as in the "Start Frame". Keep it turned this way.` : ''}
+- **Background:** ${backgroundInstruction}
+`;
+
+
+                const { image: midFrame, cost } = await meteredEditImage({
+                    images: [
+                        originalImage,                // Style Lock
+                        ...sheetImages,               // Reference sheet views
+                        allFramesData[startIndex]!,   // Frame to modify
+                        allFramesData[endIndex]!,     // Context
+                    ],
+                    prompt: refinedPrompt,
+                    signal,
+                }, 'in-between', midIndex);
+
+                if (midFrame) {
+                    return { index: midIndex, frame: await postProcessFrame(midFrame), prompt: refinedPrompt, cost };
                 }
                 console.warn(`Could not extract image data for frame index ${midIndex}.`);
-                return null;
+                return { index: midIndex, frame: null, error: 'The model did not return an image.' };
             } catch (err) {
+                if (signal.aborted) return { index: midIndex, frame: null };
+                if (err instanceof BudgetExceededError) budgetError = err;
                 console.error(`Failed to generate frame at index ${midIndex}:`, err);
-                return null;
+                return { index: midIndex, frame: null, error: err instanceof Error ? err.message : 'An unknown error occurred.' };
+            }
+        };
+
+        try {
+            setLoadingMessage('Generating frames...');
+
+            // 1. Generate a "clean" first frame from the user upload for consistency.
+            if (!allFramesData[0]) {
+                try {
+                    const firstFramePrompt = `Redraw this character to be used as the clean first frame of an animation. Replicate the character's appearance, art style, colors, and proportions with 100% fidelity. Your task is to place the character into this precise pose: \`\`\`json\n${JSON.stringify(framePrompts[0], null, 2)}\n\`\`\` Follow this background instruction: "${backgroundInstruction}". Do not alter the character's design in any way.${sheetImages.length > 0 ? ` The first image is the character to redraw.${getSheetText(1)}` : ''}`;
+                    const { image: processedInitialImage, cost } = await meteredEditImage({
+                        images: [styleLock, ...sheetImages],
+                        prompt: firstFramePrompt,
+                        signal,
+                    }, 'first-frame', 0);
+                    if (!processedInitialImage) {
+                        throw new Error("API did not return the initial frame.");
+                    }
+                    recordFrame(0, await postProcessFrame(processedInitialImage), firstFramePrompt, cost);
+                    setProgress(prev => prev + 1);
+                    publishFrames();
+                } catch (err) {
+                    if (!signal.aborted) frameErrorsData[0] = err instanceof Error ? err.message : 'An unknown error occurred.';
+                    throw err;
+                }
+            }
+            const processedInitialImage = allFramesData[0]!;
+
+
+            // 2. Determine and generate the last frame
+            if (!allFramesData[frameCount - 1]) {
+                if (isCyclic) {
+                    // Reuses frame 1 without a model call, so it costs nothing and isn't in the ledger
+                    recordFrame(frameCount - 1, processedInitialImage, '', 0, 'Copy of frame 1 (cyclic loop)');
+                    setProgress(prev => prev + 1);
+                } else {
+                    try {
+                        const lastFramePrompt = `You are generating the final frame of an animation. Use the "Original Image" (the first image provided) as the absolute ground truth for art style, colors, and proportions. Use the "Start Frame" (the second image provided) as the base for modification. Your task is to modify the "Start Frame" to match this new pose description with perfect style consistency: \`\`\`json\n${JSON.stringify(framePrompts[frameCount - 1], null, 2)}\n\`\`\` Follow this background instruction: "${backgroundInstruction}". Do not change any part of the character not specified in the pose description.${getSheetText(2)}`;
+                        const { image: lastFrameBase64, cost } = await meteredEditImage({
+                            images: [
+                                styleLock, // Original Image (Style Lock)
+                                processedInitialImage, // Start Frame (Pose Reference)
+                                ...sheetImages, // Reference sheet views
+                            ],
+                            prompt: lastFramePrompt,
+                            signal,
+                        }, 'last-frame', frameCount - 1);
+                        
+                        if (!lastFrameBase64) {
+                            throw new Error("API did not return the last frame.");
+                        }
+                        recordFrame(frameCount - 1, await postProcessFrame(lastFrameBase64), lastFramePrompt, cost);
+                        setProgress(prev => prev + 1);
+                    } catch (err) {
+                        if (!signal.aborted) frameErrorsData[frameCount - 1] = err instanceof Error ? err.message : 'An unknown error occurred.';
+                        throw err;
+                    }
+                }
+            }
+            publishFrames();
+
+
+            // 3. Iteratively generate the missing in-between frames level by level
+            for (const level of buildInBetweenSchedule(frameCount, fixedIndices)) {
+                if (signal.aborted || budgetError) break;
+                const promises = level
+                    .filter(task => !allFramesData[task.index])
+                    .map(task => generateSingleFrame(task, framePrompts, styleLock));
+                if (promises.length === 0) continue;
+
+                const results = await Promise.all(promises);
+                
+                const successfulGenerations = results.filter(result => result.frame).length;
+
+                results.forEach(result => {
+                    if (result.frame) recordFrame(result.index, result.frame, result.prompt ?? '', result.cost ?? 0);
+                    frameErrorsData[result.index] = result.error ?? null;
+                });
+
+                setProgress(prev => prev + successfulGenerations);
+                publishFrames();
+            }
+
+            const failedCount = allFramesData.filter(frame => frame === null).length;
+            complete = failedCount === 0 && !signal.aborted;
+            if (budgetError) {
+                stopAtBudget(budgetError, failedCount, resumeLabel);
+            } else if (signal.aborted) {
+                setError(`Generation cancelled with ${failedCount} frame(s) left. Use "${resumeLabel}" to continue.`);
+            } else if (failedCount > 0) {
+                setError(`${failedCount} frame(s) could not be generated. Use "${resumeLabel}" to retry them.`);
+            }
+
+        } catch (err) {
+            publishFrames();
+            if (signal.aborted) {
+                setError(`Generation cancelled. Use "${resumeLabel}" to continue.`);
+                return result();
+            }
+            if (err instanceof BudgetExceededError) {
+                stopAtBudget(err, allFramesData.filter(frame => frame === null).length, resumeLabel);
+                return result();
+            }
+            console.error(err);
+            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            setError("Failed to generate animation. " + message);
+        } finally {
+            abortControllerRef.current = null;
+            setIsLoading(false);
+            setLoadingMessage('');
+        }
+        return result();
+    };
+
+    // Reports a run that stopped because its next call would go over the budget
+    const stopAtBudget = (err: BudgetExceededError, remaining?: number, resumeLabel = 'Resume') => {
+        const left = remaining === undefined ? '' : ` with ${remaining} frame(s) left`;
+        if (err.action === 'pause') {
+            setBudgetPaused(true);
+            setError(`Paused${left}. ${err.message} Raise the budget and "${resumeLabel}", or "Continue Anyway".`);
+        } else {
+            setError(`Blocked${left}. ${err.message} Raise the budget and "${resumeLabel}" to continue.`);
+        }
+    };
+
+    // The run for the animation in the main view; set actions are locked to the set's base frame
+    const getCurrentRun = (): GenerationRun => ({ framePrompts, isCyclic, styleLock: animationSet?.baseFrame ?? initialImage, referenceSheet, keyframes });
+
+    const generateAnimation = () => {
+        budgetOverrideRef.current = false;
+        // Regenerating from the plan starts a new gallery session, unless the current one has no frames to keep
+        if (generatedFrames.some(Boolean)) setSession(null);
+        runGeneration([], getCurrentRun());
+    };
+
+    const resumeGeneration = () => {
+        budgetOverrideRef.current = false;
+        runGeneration(frameHistory, getCurrentRun());
+    };
+
+    // Resumes a run that was paused at the budget, letting it go over the limit this time
+    const continuePastBudget = () => {
+        if (animationSet) {
+            generateSet(true);
+            return;
+        }
+        budgetOverrideRef.current = true;
+        runGeneration(frameHistory, getCurrentRun());
+    };
+
+    // Helper to make room for `count` new frames after each slot in `positions`. The new
+    // slots get poses part-way between their neighbours and no image yet.
+    const planInsertion = (positions: number[], count: number) => {
+        let plan = framePrompts;
+        let history = frameHistory;
+        let nextTimeline = activeTimeline;
+        let nextKeyframes = keyframes;
+        // From the end, so the earlier positions stay valid
+        [...positions].sort((a, b) => b - a).forEach(after => {
+            const inserted = Array.from({ length: count }, (_, i) =>
+                interpolatePose(plan[after], plan[after + 1], (i + 1) / (count + 1), `In-between of frames ${after + 1} and ${after + 2}`));
+            const empty = new Array(count).fill(null);
+            plan = [...plan.slice(0, after + 1), ...inserted, ...plan.slice(after + 1)];
+            history = [...history.slice(0, after + 1), ...empty, ...history.slice(after + 1)];
+            nextTimeline = insertSlots(nextTimeline, after, count);
+            if (nextKeyframes.length > after + 1) nextKeyframes = [...nextKeyframes.slice(0, after + 1), ...empty, ...nextKeyframes.slice(after + 1)];
+        });
+        return { plan, history, timeline: nextTimeline, keyframes: nextKeyframes };
+    };
+
+    // Generates the empty slots of an insertion as in-betweens of the frames around them.
+    // Slot indices change, so the undo history is cleared. Returns false, with the error
+    // shown, when the animation would go over the frame limit.
+    const runInsertion = ({ plan, history, timeline: nextTimeline, keyframes: nextKeyframes }: ReturnType<typeof planInsertion>): boolean => {
+        if (plan.length > MAX_NUM_FRAMES) {
+            setError(`That would make ${plan.length} frames; an animation can have at most ${MAX_NUM_FRAMES}.`);
+            return false;
+        }
+        setFramePrompts(plan);
+        setTimeline(nextTimeline);
+        setKeyframes(nextKeyframes);
+        setUndoStack([]);
+        setRedoStack([]);
+        setAlignment(null);
+        budgetOverrideRef.current = false;
+        runGeneration(history, { ...getCurrentRun(), framePrompts: plan, keyframes: nextKeyframes });
+        return true;
+    };
+
+    const handleInsertInBetweens = () => {
+        const [start, end] = selectedFrameIndices;
+        if (selectedFrameIndices.length !== 2 || end !== start + 1) return;
+        runInsertion(planInsertion([start], insertCount));
+    };
+
+    // Inserts a frame between every pair and halves every step's duration, so the animation
+    // keeps its length but plays twice as smoothly. Steps that follow the FPS keep following
+    // it when it can be doubled; past the FPS limit they get half its duration instead.
+    const handleDoubleFrameRate = () => {
+        const insertion = planInsertion(framePrompts.slice(1).map((_, i) => i), 1);
+        const canDoubleFps = fps * 2 <= MAX_FPS;
+        insertion.timeline = {
+            ...insertion.timeline,
+            entries: insertion.timeline.entries.map(entry => entry.durationMs === undefined && canDoubleFps
+                ? entry
+                : { ...entry, durationMs: Math.max(MIN_FRAME_DURATION_MS, Math.round(getEntryDuration(entry, fps) / 2)) }),
+        };
+        if (runInsertion(insertion) && canDoubleFps) setFps(fps * 2);
+    };
+
+    // The active set action, updated with its state in the main view
+    const snapshotAction = (action: SetAction): SetAction => ({
+        ...action,
+        prompt,
+        numFrames,
+        isCyclic,
+        framePrompts,
+        frameHistory,
+        timeline,
+        frameErrors,
+    });
+
+    // Helper to get every action of the set with the active one as it is in the main view
+    const getSetActions = (set: AnimationSet): SetAction[] =>
+        set.actions.map((action, i) => i === set.active ? snapshotAction(action) : action);
+
+    // Shows a set action in the main view
+    const showAction = (action: SetAction) => {
+        setPrompt(action.prompt);
+        setNumFrames(action.numFrames);
+        setIsCyclic(action.isCyclic);
+        setFramePrompts(action.framePrompts);
+        resetHistory(action.frameHistory);
+        setTimeline(action.timeline);
+        setFrameErrors(action.frameErrors);
+        setKeyframes([]);
+        setSelectedFrameIndices([]);
+        setEditingFrameIndices(null);
+    };
+
+    const handleStartSet = () => {
+        const set = createGameCharacterSet();
+        setAnimationSet(set);
+        showAction(set.actions[0]);
+    };
+
+    const handleSelectAction = (index: number) => {
+        if (!animationSet || index === animationSet.active) return;
+        const actions = getSetActions(animationSet);
+        setAnimationSet({ ...animationSet, actions, active: index });
+        showAction(actions[index]);
+    };
+
+    // The name lives in the set; everything else of the active action lives in the main view
+    const handleActiveActionChange = (action: SetAction) => {
+        setPrompt(action.prompt);
+        setNumFrames(action.numFrames);
+        setIsCyclic(action.isCyclic);
+        setAnimationSet(prev => prev && { ...prev, actions: prev.actions.map((a, i) => i === prev.active ? { ...a, name: action.name } : a) });
+    };
+
+    const handleResetAction = (index: number) => {
+        if (!animationSet) return;
+        const actions = getSetActions(animationSet);
+        const { name, prompt, numFrames, isCyclic } = actions[index];
+        const reset = createSetAction(name, prompt, numFrames, isCyclic);
+        setAnimationSet({ ...animationSet, actions: actions.map((action, i) => i === index ? reset : action) });
+        if (index === animationSet.active) showAction(reset);
+    };
+
+    // Generates every action of the set that isn't finished yet: first the shared base frame,
+    // then for each action its plan and its frames, with the action shown while it runs.
+    const generateSet = async (overBudget = false) => {
+        if (!animationSet || !initialImage) return;
+        budgetOverrideRef.current = overBudget;
+        let actions = getSetActions(animationSet);
+        let baseFrame = animationSet.baseFrame;
+        let signal: AbortSignal | null = null;
+
+        setIsGeneratingSet(true);
+        setError(null);
+        setBudgetPaused(false);
+        try {
+            if (!baseFrame) {
+                setLoadingMessage('Generating the base frame...');
+                signal = startCancellable();
+                const basePrompt = `Redraw this character as the clean base frame for a set of animations. Replicate the character's appearance, art style, colors, and proportions with 100% fidelity, in a neutral, relaxed pose facing the same direction. Follow this background instruction: "${getBackgroundInstruction(initialImageHasTransparency)}". Do not alter the character's design in any way.${referenceSheet.length > 0 ? ` The first image is the character to redraw. The next ${referenceSheet.length} image(s) are labelled views from the character's reference sheet:\n${describeReferenceSheet(referenceSheet, 2)}\n` : ''}`;
+                const { image } = await meteredEditImage({ images: [initialImage, ...getSheetImages(referenceSheet)], prompt: basePrompt, signal }, 'base-frame');
+                if (!image) throw new Error('The model did not return the base frame.');
+                baseFrame = await postProcessFrame(image);
+                setAnimationSet(prev => prev && { ...prev, baseFrame });
+            }
+
+            for (let i = 0; i < actions.length; i++) {
+                let action = actions[i];
+                const isFinished = action.framePrompts.length > 0
+                    && action.frameHistory.length === action.framePrompts.length
+                    && getActiveFrames(action.frameHistory).every(Boolean);
+                if (isFinished) continue;
+
+                setAnimationSet({ actions, active: i, baseFrame });
+                showAction(action);
+                if (action.framePrompts.length === 0) {
+                    setLoadingMessage(`Planning "${action.name}"...`);
+                    signal = startCancellable();
+                    const plan = await requestPlan(buildPlannerPrompt(action.prompt, action.numFrames, action.isCyclic, rig), action.numFrames, 'plan', signal);
+                    action = { ...action, framePrompts: plan, frameHistory: [], timeline: createTimeline(plan.length) };
+                    setFramePrompts(plan);
+                }
+
+                const result = await runGeneration(action.frameHistory, { framePrompts: action.framePrompts, isCyclic: action.isCyclic, styleLock: baseFrame, referenceSheet });
+                if (!result) return;
+                action = {
+                    ...action,
+                    frameHistory: result.history,
+                    frameErrors: result.errors,
+                    timeline: action.timeline.entries.length === action.framePrompts.length ? action.timeline : createTimeline(action.framePrompts.length),
+                };
+                actions = actions.map((a, j) => j === i ? action : a);
+                setAnimationSet({ actions, active: i, baseFrame });
+                if (!result.complete) return;
+            }
+        } catch (err) {
+            if (signal?.aborted) {
+                setError('Set generation cancelled. Use "Generate Set" to continue.');
+                return;
+            }
+            if (err instanceof BudgetExceededError) {
+                stopAtBudget(err);
+                return;
+            }
+            console.error(err);
+            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            setError("Failed to generate the animation set. " + message);
+        } finally {
+            abortControllerRef.current = null;
+            setIsGeneratingSet(false);
+            setLoadingMessage('');
+        }
+    };
+
+    const handleDownloadSet = async () => {
+        if (!animationSet) return;
+        const actions = getSetActions(animationSet);
+        const names = getAnimationNames(actions);
+
+        setIsExporting(true);
+        try {
+            const zip = new JSZip();
+            const sheetFrames: string[] = [];
+            const sheetNames: string[] = [];
+            const sheetDurations: number[] = [];
+            const animations: Record<string, string[]> = {};
+
+            for (const [i, action] of actions.entries()) {
+                const frames = getActiveFrames(action.frameHistory);
+                if (!frames.some(Boolean)) continue;
+                const actionTimeline = normalizeTimeline(action.timeline, frames.length);
+                const folder = zip.folder(names[i])!;
+                for (const [index, frame] of frames.entries()) {
+                    if (frame) folder.file(getFrameFileName(index), await getExportPngData(frame), { base64: true });
+                }
+                // Whether an action loops is part of the action: a jump plays once, a run repeats
+                folder.file('timing.json', JSON.stringify(buildTimingManifest(actionTimeline, fps, action.isCyclic, getFrameFileName), null, 2));
+
+                // Each slot is packed once under its file name; the animation holds the order and repeats
+                const steps = getPlaybackSequence(actionTimeline, fps).filter(step => frames[step.frame]);
+                getSequenceSlots(steps).forEach(slot => {
+                    sheetFrames.push(frames[slot.frame]!);
+                    sheetNames.push(`${names[i]}/${getFrameFileName(slot.frame)}`);
+                    sheetDurations.push(slot.durationMs);
+                });
+                animations[names[i]] = steps.map(step => `${names[i]}/${getFrameFileName(step.frame)}`);
+            }
+            if (sheetFrames.length === 0) return;
+
+            const sheet = buildSpriteSheet(await getExportImageData(sheetFrames), {
+                layout: spriteSheetLayout,
+                padding: 2,
+                frameDurationsMs: sheetDurations,
+                pivot: { x: 0.5, y: 0.5 },
+                fileNames: sheetNames,
+            });
+            zip.file('spritesheet.png', await canvasToPngBlob(sheet.canvas));
+            zip.file('spritesheet.json', JSON.stringify(buildAtlasJson(sheet, atlasFormat, 'spritesheet.png', animations), null, 2));
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), 'animation_set.zip');
+        } catch (err) {
+            console.error("Failed to export the animation set.", err);
+            setError("Sorry, could not export the animation set.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    // Redoes the finished animation in the main view facing every direction. Each generated
+    // direction gets a turned copy of frame 1, which is then locked as its style and first
+    // frame; mirrored directions are flipped copies of their partner. Finished directions of
+    // an earlier run are kept, so a stopped run picks up where it left off.
+    const generateDirections = async (overBudget = false) => {
+        const styleLock = animationSet?.baseFrame ?? initialImage;
+        const sourceFrame = generatedFrames[0];
+        if (!styleLock || !sourceFrame || framePrompts.length === 0 || generatedFrames.some(frame => !frame)) return;
+        budgetOverrideRef.current = overBudget;
+        const frameCount = framePrompts.length;
+        const isFinished = (variant: DirectionVariant) =>
+            variant.frameHistory.length === frameCount && getActiveFrames(variant.frameHistory).every(Boolean);
+
+        let variants = getDirections(directionSettings.count).map((direction): DirectionVariant => {
+            const mirroredFrom = getMirrorSource(direction, directionSettings);
+            if (direction === directionSettings.source) {
+                return { direction, baseFrame: sourceFrame, frameHistory, frameErrors: [], mirroredFrom: null };
+            }
+            const earlier = directionVariants?.find(variant => variant.direction === direction);
+            return earlier && earlier.mirroredFrom === mirroredFrom && earlier.frameHistory.length === frameCount
+                ? earlier
+                : { direction, baseFrame: null, frameHistory: [], frameErrors: [], mirroredFrom };
+        });
+        const updateVariant = (next: DirectionVariant) => {
+            variants = variants.map(variant => variant.direction === next.direction ? next : variant);
+            setDirectionVariants(variants);
+        };
+        setDirectionVariants(variants);
+
+        let signal: AbortSignal | null = null;
+        setIsGeneratingDirections(true);
+        setError(null);
+        setBudgetPaused(false);
+        try {
+            for (let variant of variants) {
+                if (variant.mirroredFrom || isFinished(variant)) continue;
+                const { direction } = variant;
+
+                if (!variant.baseFrame) {
+                    setLoadingMessage(`Turning the character to face ${DIRECTION_LABELS[direction].toLowerCase()}...`);
+                    signal = startCancellable();
+                    const turnPrompt = `You are turning a character for a top-down game. The first image is the "Original Image", the ground truth for the character's art style, colors, and proportions. The second image is the first frame of an animation, with the character ${describeDirection(directionSettings.source)}. Redraw that frame with the character ${describeDirection(direction)}, in the same pose: \`\`\`json\n${JSON.stringify(framePrompts[0], null, 2)}\n\`\`\` Keep the same size, position on the canvas, and ground line. Follow this background instruction: "${getBackgroundInstruction(initialImageHasTransparency)}". Do not alter the character's design in any way.${referenceSheet.length > 0 ? ` The next ${referenceSheet.length} image(s) are labelled views from the character's reference sheet:\n${describeReferenceSheet(referenceSheet, 3)}\n` : ''}`;
+                    const { image, cost } = await meteredEditImage({ images: [styleLock, sourceFrame, ...getSheetImages(referenceSheet)], prompt: turnPrompt, signal }, 'direction-base', 0);
+                    if (!image) throw new Error(`The model did not return the ${DIRECTION_LABELS[direction].toLowerCase()} base pose.`);
+                    const baseFrame = await postProcessFrame(image);
+                    // The turned pose is frame 1 of the direction, so it is never generated twice
+                    const history = addVersion(new Array<FrameSlotHistory | null>(frameCount).fill(null), 0, {
+                        image: baseFrame,
+                        source: 'generation',
+                        label: `Turned to face ${DIRECTION_LABELS[direction].toLowerCase()}`,
+                        prompt: turnPrompt,
+                        cost,
+                        createdAt: new Date().toISOString(),
+                    });
+                    variant = { ...variant, baseFrame, frameHistory: history };
+                    updateVariant(variant);
+                }
+
+                setLoadingMessage(`Generating the ${DIRECTION_LABELS[direction].toLowerCase()} direction...`);
+                // The frames go straight into the variant; the main view keeps the source animation
+                const generating = variant;
+                const result = await runGeneration(variant.frameHistory, {
+                    framePrompts: adjustPlanForDirection(framePrompts, direction),
+                    isCyclic,
+                    styleLock: variant.baseFrame!,
+                    referenceSheet,
+                    facing: direction,
+                    onFrames: (history, errors) => updateVariant({ ...generating, frameHistory: history, frameErrors: errors }),
+                    resumeLabel: 'Resume Directions',
+                });
+                if (!result) return;
+                variant = { ...variant, frameHistory: result.history, frameErrors: result.errors };
+                updateVariant(variant);
+                if (!result.complete) return;
+            }
+
+            for (const variant of variants) {
+                const partner = variants.find(other => other.direction === variant.mirroredFrom);
+                if (!partner || !isFinished(partner)) continue;
+                setLoadingMessage(`Mirroring the ${DIRECTION_LABELS[variant.direction].toLowerCase()} direction...`);
+                const mirrored = await Promise.all(getActiveFrames(partner.frameHistory).map(frame => mirrorFrame(frame!)));
+                updateVariant({
+                    ...variant,
+                    baseFrame: mirrored[0],
+                    frameHistory: mirrored.map(image => ({
+                        versions: [{ image, source: 'processing', label: `Mirrored from ${DIRECTION_LABELS[partner.direction].toLowerCase()}`, prompt: '', cost: 0, createdAt: new Date().toISOString() }],
+                        active: 0,
+                    })),
+                    frameErrors: [],
+                });
+            }
+        } catch (err) {
+            if (signal?.aborted) {
+                setError('Direction generation cancelled. Use "Resume Directions" to continue.');
+                return;
+            }
+            if (err instanceof BudgetExceededError) {
+                stopAtBudget(err, undefined, 'Resume Directions');
+                return;
+            }
+            console.error(err);
+            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            setError("Failed to generate the directions. " + message);
+        } finally {
+            abortControllerRef.current = null;
+            setIsGeneratingDirections(false);
+            setLoadingMessage('');
+        }
+    };
+
+    // Exports every direction as one sprite sheet, one row per direction, plus a folder of
+    // frames per direction
+    const handleDownloadDirections = async () => {
+        if (!directionVariants) return;
+        setIsExporting(true);
+        try {
+            const zip = new JSZip();
+            const steps = getPlaybackSequence(activeTimeline, fps);
+            // Each slot is packed once under its file name; the animations hold the order and repeats
+            const slots = getSequenceSlots(steps);
+            const sheetFrames: string[] = [];
+            const sheetNames: string[] = [];
+            const sheetDurations: number[] = [];
+            const animations: Record<string, string[]> = {};
+
+            for (const variant of directionVariants) {
+                const frames = getActiveFrames(variant.frameHistory);
+                const name = `${exportBaseName}_${variant.direction.toLowerCase()}`;
+                const folder = zip.folder(name)!;
+                for (const [index, frame] of frames.entries()) {
+                    if (frame) folder.file(getFrameFileName(index), await getExportPngData(frame), { base64: true });
+                }
+                folder.file('timing.json', JSON.stringify(buildTimingManifest(activeTimeline, fps, loop, getFrameFileName), null, 2));
+                slots.forEach(slot => {
+                    sheetFrames.push(frames[slot.frame]!);
+                    sheetNames.push(`${name}/${getFrameFileName(slot.frame)}`);
+                    sheetDurations.push(slot.durationMs);
+                });
+                animations[name] = steps.map(step => `${name}/${getFrameFileName(step.frame)}`);
             }
+
+            const sheet = buildSpriteSheet(await getExportImageData(sheetFrames), {
+                layout: 'grid',
+                padding: 2,
+                frameDurationsMs: sheetDurations,
+                pivot: { x: 0.5, y: 0.5 },
+                fileNames: sheetNames,
+                columns: slots.length,
+            });
+            zip.file('directions.png', await canvasToPngBlob(sheet.canvas));
+            zip.file('directions.json', JSON.stringify(buildAtlasJson(sheet, atlasFormat, 'directions.png', animations), null, 2));
+            downloadBlob(await zip.generateAsync({ type: 'blob' }), `${exportBaseName}_directions.zip`);
+        } catch (err) {
+            console.error("Failed to export the directions.", err);
+            setError("Sorry, could not export the directions.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const exportBaseName = prompt.replace(/[^a-z0-9]/gi, '_').toLowerCase().slice(0, 30) || 'animation';
+    const exportLoop = loop && isLoopingMode(activeTimeline.mode);
+
+    // Helper to decode frames for export; pixel art is exported at its native resolution
+    const getExportImageData = async (frames: string[]): Promise<ImageData[]> => {
+        const images = await framesToImageData(frames);
+        return pixelGrid ? images.map(image => downscaleNearest(image, pixelGrid.width, pixelGrid.height)) : images;
+    };
+
+    // Helper to get the base64 PNG data of a frame for a zip export
+    const getExportPngData = async (frame: string): Promise<string> =>
+        (pixelGrid ? imageDataToDataUrl((await getExportImageData([frame]))[0]) : frame).split(',')[1];
+
+    // Helper to list the frames of one playback cycle, with their durations, as every export plays them
+    const getExportSequence = (): { frames: string[]; durationsMs: number[] } => {
+        const steps = getPlaybackSequence(activeTimeline, fps).filter(step => generatedFrames[step.frame]);
+        return {
+            frames: steps.map(step => generatedFrames[step.frame]!),
+            durationsMs: steps.map(step => step.durationMs),
         };
+    };
+
+    const handleDownload = async () => {
+        if (!generatedFrames.some(Boolean)) return;
+
+        setIsExporting(true);
+        try {
+            const zip = new JSZip();
+            for (const [index, frameDataUrl] of generatedFrames.entries()) {
+                if (frameDataUrl) zip.file(getFrameFileName(index), await getExportPngData(frameDataUrl), { base64: true });
+            }
+            zip.file('timing.json', JSON.stringify(buildTimingManifest(activeTimeline, fps, loop, getFrameFileName), null, 2));
+            const content = await zip.generateAsync({ type: 'blob' });
+            downloadBlob(content, `${exportBaseName}.zip`);
+        } catch (err) {
+            console.error("Failed to create zip file.", err);
+            setError("Sorry, could not create the zip file for download.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleDownloadGif = async () => {
+        const { frames, durationsMs } = getExportSequence();
+        if (frames.length === 0) return;
+
+        setIsExporting(true);
+        try {
+            const imageData = await getExportImageData(frames);
+            const gif = encodeGif(imageData, {
+                delaysMs: durationsMs,
+                loop: exportLoop,
+                transparent: outputHasTransparency,
+            });
+            downloadBlob(new Blob([gif], { type: 'image/gif' }), `${exportBaseName}.gif`);
+        } catch (err) {
+            console.error("Failed to create GIF.", err);
+            setError("Sorry, could not create the GIF for download.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
+    const handleDownloadWebp = async () => {
+        const { frames, durationsMs } = getExportSequence();
+        if (frames.length === 0) return;
+
+        setIsExporting(true);
         try {
-            // 1. Generate a full script of frame-by-frame prompts
-            setLoadingMessage('Generating animation plan...');
-            const isCyclicText = isCyclic ? "The animation should loop seamlessly, so the last frame should lead smoothly back into the first." : "The animation has a distinct start and end.";
-            const plannerPrompt = `
-You are a master animator and puppeteer acting as a meticulous director for a motion photoshoot. A user wants to create a ${NUM_FRAMES}-frame animation.
-User's request: "${prompt}"
-${isCyclicText}
+            const imageData = await getExportImageData(frames);
+            const webp = await encodeAnimatedWebp(imageData, { delaysMs: durationsMs, loop: exportLoop, quality: 1 });
+            downloadBlob(new Blob([webp], { type: 'image/webp' }), `${exportBaseName}.webp`);
+        } catch (err) {
+            console.error("Failed to create WebP.", err);
+            setError("Sorry, could not create the WebP for download. " + (err instanceof Error ? err.message : ''));
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-Your task is to create a detailed, frame-by-frame animation plan. This plan will define the precise pose of a character for ${NUM_FRAMES} frames.
-Focus *only* on the character's pose, position, and expression for each specific frame.
+    const handleDownloadApng = async () => {
+        const { frames, durationsMs } = getExportSequence();
+        if (frames.length === 0) return;
 
-**CRITICAL RULE:** The character's core appearance, art style, colors, proportions, and accessories (like sunglasses) MUST remain consistent across all frames. DO NOT change the facial expression unless the user's prompt *specifically* requests it (e.g., "looking surprised"). You are directing a model, not redesigning a character.
+        setIsExporting(true);
+        try {
+            const imageData = await getExportImageData(frames);
+            const apng = await encodeApng(imageData, { delaysMs: durationsMs, loop: exportLoop });
+            downloadBlob(new Blob([apng], { type: 'image/apng' }), `${exportBaseName}.png`);
+        } catch (err) {
+            console.error("Failed to create APNG.", err);
+            setError("Sorry, could not create the APNG for download.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-Output your response as a JSON array of objects. Each object represents one frame and must contain the following keys: "notes", "head", "torso", "left_arm", "right_arm", "left_leg", "right_leg", "facial_expression".
-The values should be detailed string descriptions of the position and rotation of each body part. Be extremely specific to ensure a smooth, logical, and believable progression of movement. The array must contain exactly ${NUM_FRAMES} elements.
-`;
-            const promptGenResponse = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: plannerPrompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                notes: { type: Type.STRING, description: "A brief summary of the action in this frame." },
-                                head: { type: Type.STRING, description: "Position and orientation of the head." },
-                                torso: { type: Type.STRING, description: "Position and orientation of the torso." },
-                                left_arm: { type: Type.STRING, description: "Position, rotation, and gesture of the left arm and hand." },
-                                right_arm: { type: Type.STRING, description: "Position, rotation, and gesture of the right arm and hand." },
-                                left_leg: { type: Type.STRING, description: "Position and orientation of the left leg and foot." },
-                                right_leg: { type: Type.STRING, description: "Position and orientation of the right leg and foot." },
-                                facial_expression: { type: Type.STRING, description: "The character's facial expression, including eyes and mouth." },
-                            },
-                             required: ["notes", "head", "torso", "left_arm", "right_arm", "left_leg", "right_leg", "facial_expression"]
-                        },
-                    },
-                },
+    // Every slot is packed once under its zip file name; the animation lists the playback
+    // order, and timing.json the duration of every step
+    const handleDownloadSpriteSheet = async () => {
+        const steps = getPlaybackSequence(activeTimeline, fps).filter(step => generatedFrames[step.frame]);
+        if (steps.length === 0) return;
+
+        setIsExporting(true);
+        try {
+            const slots = getSequenceSlots(steps);
+            const imageData = await getExportImageData(slots.map(slot => generatedFrames[slot.frame]!));
+            const sheet = buildSpriteSheet(imageData, {
+                layout: spriteSheetLayout,
+                padding: 2,
+                frameDurationsMs: slots.map(slot => slot.durationMs),
+                pivot: { x: 0.5, y: 0.5 },
+                fileNames: slots.map(slot => getFrameFileName(slot.frame)),
             });
+            const imageName = `${exportBaseName}.png`;
+            const atlas = buildAtlasJson(sheet, atlasFormat, imageName, { [exportBaseName]: steps.map(step => getFrameFileName(step.frame)) });
 
-            const usage = promptGenResponse.usageMetadata;
-            if (usage) {
-                const inputCost = (usage.promptTokenCount / 1_000_000) * GEMINI_FLASH_INPUT_PRICE_PER_MILLION_TOKENS;
-                const outputCost = (usage.candidatesTokenCount / 1_000_000) * GEMINI_FLASH_OUTPUT_PRICE_PER_MILLION_TOKENS;
-                setEstimatedCost(prev => prev + inputCost + outputCost);
-            }
+            const zip = new JSZip();
+            zip.file(imageName, await canvasToPngBlob(sheet.canvas));
+            zip.file(`${exportBaseName}.json`, JSON.stringify(atlas, null, 2));
+            zip.file('timing.json', JSON.stringify(buildTimingManifest(activeTimeline, fps, loop, getFrameFileName), null, 2));
+            const content = await zip.generateAsync({ type: 'blob' });
+            downloadBlob(content, `${exportBaseName}_spritesheet.zip`);
+        } catch (err) {
+            console.error("Failed to create sprite sheet.", err);
+            setError("Sorry, could not create the sprite sheet for download.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+    
+    const handleSaveProject = async () => {
+        if (!initialImage) return;
+        try {
+            const bundle = await saveProject({
+                prompt,
+                initialImage,
+                initialImageHasTransparency,
+                framePrompts,
+                generatedFrames,
+                frameHistory,
+                timeline,
+                isCyclic,
+                fps,
+                loop,
+                numFrames,
+                estimatedCost,
+                ledger,
+                rig,
+                referenceSheet,
+            });
+            downloadBlob(bundle, `${exportBaseName}${PROJECT_FILE_EXTENSION}`);
+        } catch (err) {
+            console.error("Failed to save project.", err);
+            setError("Sorry, could not save the project.");
+        }
+    };
 
-            const generatedPrompts = JSON.parse(promptGenResponse.text);
+    // Helper to load a saved project, checkpoint or gallery session into the editor
+    const restoreProject = (project: ProjectState, errors: (string | null)[] = []) => {
+        setPrompt(project.prompt);
+        setInitialImage(project.initialImage);
+        setInitialImageHasTransparency(project.initialImageHasTransparency);
+        setFramePrompts(project.framePrompts);
+        resetHistory(project.frameHistory ?? createInitialHistory(project.generatedFrames));
+        setTimeline(project.timeline ?? createTimeline(project.generatedFrames.length));
+        setFrameErrors(errors);
+        setIsCyclic(project.isCyclic);
+        setFps(project.fps);
+        setLoop(project.loop);
+        setNumFrames(project.numFrames);
+        resetCost(project.estimatedCost);
+        setLedger(project.ledger ?? []);
+        restoreRig(project.rig);
+        setReferenceSheet(project.referenceSheet ?? []);
+        setSelectedFrameIndices([]);
+        setEditingFrameIndices(null);
+    };
 
-            if (!Array.isArray(generatedPrompts) || generatedPrompts.length !== NUM_FRAMES || !generatedPrompts.every(p => typeof p === 'object' && p !== null)) {
-                throw new Error('The AI failed to generate a valid animation plan. Please try a different prompt.');
-            }
-            const framePrompts = generatedPrompts as Record<string, string>[];
-            setProgress(1);
-            setLoadingMessage('Generating frames...');
+    const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
 
+        try {
+            const project = await loadProject(file);
+            restoreProject(project);
+            setSession(null);
+            setError(null);
+        } catch (err) {
+            console.error("Failed to open project.", err);
+            setError(err instanceof Error ? err.message : "Sorry, could not open the project.");
+        }
+    };
 
-            // 2. Generate frames based on the script
-            // 2a. Generate a "clean" first frame from the user upload for consistency.
-            const initialFramePart = dataUrlToGenerativePart(initialImage);
-            const firstFrameResponse = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image-preview',
-                contents: {
-                    parts: [
-                        initialFramePart,
-                        { text: `Redraw this character to be used as the clean first frame of an animation. Replicate the character's appearance, art style, colors, and proportions with 100% fidelity. Your task is to place the character into this precise pose: \`\`\`json\n${JSON.stringify(framePrompts[0], null, 2)}\n\`\`\` Follow this background instruction: "${backgroundInstruction}". Do not alter the character's design in any way.` },
-                    ],
-                },
-                config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-            });
-            const firstImagePart = firstFrameResponse.candidates?.[0]?.content.parts.find(p => 'inlineData' in p);
-            if (!firstImagePart || !('inlineData' in firstImagePart) || !firstImagePart.inlineData.data) {
-                throw new Error("API did not return the initial frame.");
-            }
-            setEstimatedCost(prev => prev + IMAGE_GENERATION_PRICE_PER_IMAGE);
-            const processedInitialImage = `data:${firstImagePart.inlineData.mimeType};base64,${firstImagePart.inlineData.data}`;
-            allFramesData[0] = processedInitialImage;
-            setGeneratedFrames([...allFramesData]);
-            setProgress(prev => prev + 1);
+    const handleCustomRigChange = (text: string) => {
+        setCustomRigText(text);
+        const parts = parseCustomParts(text);
+        if (parts.length > 0) setRig(prev => ({ ...prev, customParts: parts }));
+    };
 
+    // Helper to restore a saved rig; projects from before rigs were biped
+    const restoreRig = (saved: RigSettings | undefined) => {
+        const next = saved ?? DEFAULT_RIG_SETTINGS;
+        setRig(next);
+        setCustomRigText(formatCustomParts(next.customParts));
+    };
 
-            // 2b. Determine and generate the last frame
-            if (isCyclic) {
-                allFramesData[NUM_FRAMES - 1] = processedInitialImage;
-                setProgress(prev => prev + 1);
-            } else {
-                const lastFrameResponse = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image-preview',
-                    contents: {
-                        parts: [
-                            dataUrlToGenerativePart(initialImage), // Original Image (Style Lock)
-                            dataUrlToGenerativePart(processedInitialImage), // Start Frame (Pose Reference)
-                            { text: `You are generating the final frame of an animation. Use the "Original Image" (the first image provided) as the absolute ground truth for art style, colors, and proportions. Use the "Start Frame" (the second image provided) as the base for modification. Your task is to modify the "Start Frame" to match this new pose description with perfect style consistency: \`\`\`json\n${JSON.stringify(framePrompts[NUM_FRAMES - 1], null, 2)}\n\`\`\` Follow this background instruction: "${backgroundInstruction}". Do not change any part of the character not specified in the pose description.` },
-                        ],
-                    },
-                    config: { responseModalities: [Modality.IMAGE, Modality.TEXT] },
-                });
-                
-                const lastImagePart = lastFrameResponse.candidates?.[0]?.content.parts.find(p => 'inlineData' in p);
-                if (!lastImagePart || !('inlineData' in lastImagePart) || !lastImagePart.inlineData.data) {
-                    throw new Error("API did not return the last frame.");
-                }
-                setEstimatedCost(prev => prev + IMAGE_GENERATION_PRICE_PER_IMAGE);
-                const lastFrameBase64 = `data:${lastImagePart.inlineData.mimeType};base64,${lastImagePart.inlineData.data}`;
-                allFramesData[NUM_FRAMES - 1] = lastFrameBase64;
-                setProgress(prev => prev + 1);
-            }
-            setGeneratedFrames([...allFramesData]);
+    const handleDownloadLedger = () => {
+        downloadBlob(new Blob([ledgerToCsv(ledger)], { type: 'text/csv' }), `${exportBaseName}_costs.csv`);
+    };
 
+    const handleDownloadRecording = () => {
+        if (!('getRecording' in provider)) return;
+        const recording = JSON.stringify(provider.getRecording());
+        downloadBlob(new Blob([recording], { type: 'application/json' }), `${exportBaseName}_recording.json`);
+    };
 
-            // 2c. Iteratively generate in-between frames level by level
-            let rangesToProcess: [number, number][] = [[0, NUM_FRAMES - 1]];
-            while (rangesToProcess.some(([start, end]) => end - start > 1)) {
-                const promises = rangesToProcess
-                    .filter(([start, end]) => end - start > 1)
-                    .map(([start, end]) => generateSingleFrame(start, end, framePrompts, initialImage));
+    const handleLoadRecording = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setReplayRecording(parseRecording(await file.text()));
+            setError(null);
+        } catch (err) {
+            console.error("Failed to load recording.", err);
+            setError(err instanceof Error ? err.message : "Sorry, could not load the recording.");
+        }
+    };
 
-                const results = await Promise.all(promises);
-                
-                const successfulGenerations = results.filter(Boolean).length;
-                if (successfulGenerations > 0) {
-                     setEstimatedCost(prev => prev + (successfulGenerations * IMAGE_GENERATION_PRICE_PER_IMAGE));
-                }
+    const handleRestoreCheckpoint = () => {
+        if (!pendingCheckpoint) return;
+        restoreProject(pendingCheckpoint, pendingCheckpoint.frameErrors);
+        // Keep saving to the run's gallery session rather than starting a copy of it
+        setSession(pendingCheckpoint.session ?? null);
+        setPendingCheckpoint(null);
+    };
 
-                results.forEach(result => {
-                    if (result) {
-                        allFramesData[result.index] = result.frame;
-                    }
-                });
+    const refreshGallery = () => {
+        listSessions()
+            .then(setSessions)
+            .catch(err => console.error("Failed to list sessions.", err));
+        getStorageEstimate()
+            .then(setStorageEstimate)
+            .catch(err => console.error("Failed to estimate storage.", err));
+    };
 
-                setProgress(prev => prev + results.filter(Boolean).length);
-                setGeneratedFrames([...allFramesData]);
-                
-                const nextRanges: [number, number][] = [];
-                rangesToProcess.forEach(([start, end]) => {
-                    const mid = Math.floor((start + end) / 2);
-                    nextRanges.push([start, mid]);
-                    nextRanges.push([mid, end]);
-                });
-                rangesToProcess = nextRanges;
-            }
+    // Helper to load a gallery session, or null with the error shown
+    const fetchSession = async (id: string) => {
+        try {
+            const saved = await loadSession(id);
+            if (!saved) throw new Error("The session is no longer in the gallery.");
+            return saved;
+        } catch (err) {
+            console.error("Failed to load session.", err);
+            setError(err instanceof Error ? err.message : "Sorry, could not open the session.");
+            refreshGallery();
+            return null;
+        }
+    };
 
-            const finalFrames = allFramesData.filter((frame): frame is string => frame !== null);
-            if (finalFrames.length < 2) {
-                throw new Error("Not enough frames were generated to create an animation.");
-            }
-            
-            setProgress(totalSteps);
+    const handleOpenSession = async (id: string) => {
+        const saved = await fetchSession(id);
+        if (!saved) return;
+        restoreProject(saved);
+        setSession({ id: saved.id, createdAt: saved.createdAt });
+        setPendingCheckpoint(null);
+        setError(null);
+    };
+
+    // Starts a new run from a session's image, prompt and plan, without its frames or costs
+    const handleDuplicateSession = async (id: string) => {
+        const saved = await fetchSession(id);
+        if (!saved) return;
+        restoreProject({ ...saved, generatedFrames: [], frameHistory: [], timeline: undefined, estimatedCost: 0, ledger: [] });
+        setKeyframes([]);
+        setSession(null);
+        setPendingCheckpoint(null);
+        setError(null);
+    };
 
+    const handleDeleteSessions = async (ids: string[]) => {
+        try {
+            await deleteSessions(ids);
+            // The current run is saved again, as a new session, when it next changes
+            if (session && ids.includes(session.id)) setSession(null);
         } catch (err) {
-            console.error(err);
-            const message = err instanceof Error ? err.message : "An unknown error occurred.";
-            setError("Failed to generate animation. " + message);
-        } finally {
-            setIsLoading(false);
-            setLoadingMessage('');
+            console.error("Failed to delete sessions.", err);
+            setError("Sorry, could not delete the session.");
         }
+        refreshGallery();
     };
 
-    const handleDownload = async () => {
-        const zip = new JSZip();
-        let frameCount = 0;
-    
-        generatedFrames.forEach((frameDataUrl, index) => {
-            if (frameDataUrl) {
-                frameCount++;
-                const base64Data = frameDataUrl.split(',')[1];
-                const paddedIndex = String(index).padStart(2, '0');
-                zip.file(`frame_${paddedIndex}.png`, base64Data, { base64: true });
-            }
+    const handleCleanUpSessions = (days: number) => {
+        const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        handleDeleteSessions(sessions.filter(saved => saved.id !== session?.id && saved.updatedAt < cutoff).map(saved => saved.id));
+    };
+
+    const handleDiscardCheckpoint = () => {
+        setPendingCheckpoint(null);
+        clearCheckpoint().catch(err => console.error("Failed to clear checkpoint.", err));
+    };
+
+    // Records an undoable change of the active version of one or more slots
+    const commitHistoryAction = (nextHistory: (FrameSlotHistory | null)[], label: string): VersionChange[] => {
+        const changes = nextHistory.flatMap((slot, index) => {
+            const before = frameHistory[index]?.active ?? -1;
+            return slot && slot.active !== before ? [{ index, before, after: slot.active }] : [];
         });
-    
-        if (frameCount > 0) {
-            try {
-                const content = await zip.generateAsync({ type: 'blob' });
-                const sanitizedPrompt = prompt.replace(/[^a-z0-9]/gi, '_').toLowerCase().slice(0, 30) || 'animation';
-                const zipFileName = `${sanitizedPrompt}.zip`;
-        
-                const link = document.createElement('a');
-                link.href = URL.createObjectURL(content);
-                link.download = zipFileName;
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-                URL.revokeObjectURL(link.href);
-
-            } catch(err) {
-                console.error("Failed to create zip file.", err);
-                setError("Sorry, could not create the zip file for download.");
-            }
-        }
+        applyHistory(nextHistory);
+        if (changes.length === 0) return changes;
+        setUndoStack(prev => [...prev, { label, changes }]);
+        setRedoStack([]);
+        return changes;
     };
-    
-    const handleFramesRegenerate = (updates: { index: number; frame: string }[]) => {
-        setGeneratedFrames(prevFrames => {
-            const newFrames = [...prevFrames];
-            updates.forEach(({ index, frame }) => {
-                newFrames[index] = frame;
+
+    const handleFramesRegenerate = (updates: FrameUpdate[]) => {
+        let nextHistory = frameHistory;
+        updates.forEach(({ index, frame, prompt, label, cost }) => {
+            nextHistory = addVersion(nextHistory, index, {
+                image: frame,
+                source: 'correction',
+                label,
+                prompt,
+                cost,
+                createdAt: new Date().toISOString(),
             });
-            return newFrames;
         });
-        setEstimatedCost(prev => prev + (updates.length * IMAGE_GENERATION_PRICE_PER_IMAGE));
+        commitHistoryAction(nextHistory, `Correct frame(s) ${updates.map(({ index }) => index + 1).join(', ')}`);
         setSelectedFrameIndices([]); // Clear selection after regeneration
     };
 
+    // Re-runs the background clean-up on every current frame as one undoable step
+    const handleApplyBackground = async () => {
+        setIsExporting(true);
+        try {
+            const settings = { ...backgroundSettings, enabled: true };
+            let nextHistory = frameHistory;
+            for (const [index, frame] of generatedFrames.entries()) {
+                if (!frame) continue;
+                const cleaned = await postProcessFrame(frame, settings);
+                if (cleaned === frame) continue;
+                nextHistory = addVersion(nextHistory, index, {
+                    image: cleaned,
+                    source: 'processing',
+                    label: `Background: ${BACKDROP_LABELS[settings.backdrop].toLowerCase()}`,
+                    prompt: '',
+                    cost: 0,
+                    createdAt: new Date().toISOString(),
+                });
+            }
+            commitHistoryAction(nextHistory, 'Clean up backgrounds');
+        } catch (err) {
+            console.error("Failed to clean up backgrounds.", err);
+            setError("Sorry, could not clean up the frame backgrounds.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    // Snaps every current frame to the pixel grid and palette as one undoable step
+    const handleApplyPixelGrid = async () => {
+        if (!pixelGrid) return;
+        setIsExporting(true);
+        try {
+            let nextHistory = frameHistory;
+            for (const [index, frame] of generatedFrames.entries()) {
+                if (!frame) continue;
+                const snapped = await snapFrame(frame, pixelGrid);
+                nextHistory = addVersion(nextHistory, index, {
+                    image: snapped,
+                    source: 'processing',
+                    label: pixelArtSettings.paletteLock ? 'Pixel grid and palette' : 'Pixel grid',
+                    prompt: '',
+                    cost: 0,
+                    createdAt: new Date().toISOString(),
+                });
+            }
+            commitHistoryAction(nextHistory, 'Snap to pixel grid');
+        } catch (err) {
+            console.error("Failed to snap the frames to the pixel grid.", err);
+            setError("Sorry, could not snap the frames to the pixel grid.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    // Registers every frame to the first one; the aligned frames become new versions, so
+    // the pass can be reverted or undone
+    const handleAlignFrames = async () => {
+        if (!initialImage) return;
+        const slots = generatedFrames.flatMap((frame, index) => frame ? [{ frame, index }] : []);
+        if (slots.length === 0) return;
+
+        setIsExporting(true);
+        try {
+            const reference = await loadImage(initialImage);
+            const images = await Promise.all(slots.map(({ frame }) => loadImage(frame)));
+            const { frames, transforms } = await alignFrames(images, reference.naturalWidth, reference.naturalHeight, alignmentSettings);
+            let nextHistory = frameHistory;
+            slots.forEach(({ index }, i) => {
+                const { dx, dy, scale } = transforms[i];
+                nextHistory = addVersion(nextHistory, index, {
+                    image: frames[i],
+                    source: 'processing',
+                    label: `Aligned: shift ${dx}, ${dy} px, scale ${scale}`,
+                    prompt: '',
+                    cost: 0,
+                    createdAt: new Date().toISOString(),
+                });
+            });
+            setAlignment({ changes: commitHistoryAction(nextHistory, 'Align frames'), transforms });
+        } catch (err) {
+            console.error("Failed to align frames.", err);
+            setError("Sorry, could not align the frames.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleRevertAlignment = () => {
+        if (!alignment) return;
+        commitHistoryAction(setActiveVersions(frameHistory, alignment.changes.map(({ index, before }) => ({ index, active: before }))), 'Revert alignment');
+        setAlignment(null);
+    };
+
+    const handleSelectVersion = (index: number, version: number) => {
+        commitHistoryAction(setActiveVersions(frameHistory, [{ index, active: version }]), `Use version ${version + 1} of frame ${index + 1}`);
+    };
+
+    const handleUndo = () => {
+        const action = undoStack[undoStack.length - 1];
+        if (!action || isBusy) return;
+        applyHistory(setActiveVersions(frameHistory, action.changes.map(({ index, before }) => ({ index, active: before }))));
+        setUndoStack(prev => prev.slice(0, -1));
+        setRedoStack(prev => [...prev, action]);
+    };
+
+    const handleRedo = () => {
+        const action = redoStack[redoStack.length - 1];
+        if (!action || isBusy) return;
+        applyHistory(setActiveVersions(frameHistory, action.changes.map(({ index, after }) => ({ index, active: after }))));
+        setRedoStack(prev => prev.slice(0, -1));
+        setUndoStack(prev => [...prev, action]);
+    };
+
     const handleFrameSelect = (index: number) => {
         if (!isGenerationComplete) return;
         setSelectedFrameIndices(prev => {
@@ -717,28 +3640,82 @@ The values should be detailed string descriptions of the position and rotation o
 
     const isGenerationComplete = !isLoading && generatedFrames.every(f => f !== null);
     const hasGeneratedFrames = generatedFrames.some(f => f !== null);
-    const totalSteps = NUM_FRAMES + 1;
+    const hasPlan = framePrompts.length > 0;
+    const isBusy = isLoading || isPlanning || isGeneratingSet || isGeneratingDirections;
+    const missingFrameCount = generatedFrames.filter(f => f === null).length;
+    const canResume = !isBusy && !!initialImage && hasPlan && generatedFrames.length === framePrompts.length && missingFrameCount > 0;
+    const totalSteps = framePrompts.length;
+    const canInsertInBetweens = selectedFrameIndices.length === 2 && selectedFrameIndices[1] === selectedFrameIndices[0] + 1
+        && generatedFrames.length + insertCount <= MAX_NUM_FRAMES;
+    const canDoubleFrameRate = generatedFrames.length >= 2 && generatedFrames.length * 2 - 1 <= MAX_NUM_FRAMES;
 
     const getLoadingText = () => {
+        if (isGeneratingSet && !isLoading) return loadingMessage || 'Generating set...';
         if (!isLoading) return 'Generate Frames';
-        const framesDone = Math.max(0, progress - 1);
-        if (progress < 1) return 'Generating animation plan...';
-        return `${loadingMessage} ${framesDone}/${NUM_FRAMES}...`;
+        return `${loadingMessage} ${progress}/${totalSteps}...`;
     };
 
-    const backgroundInstruction = initialImageHasTransparency
-        ? "The background MUST be perfectly transparent."
-        : "The background of the generated image MUST perfectly match the background of the provided keyframes. Do not alter the background.";
+    const backgroundInstruction = getBackgroundInstruction(initialImageHasTransparency);
+
+    // The frames as they were before the last alignment pass, for the before/after view
+    const preAlignmentFrames = alignment
+        ? generatedFrames.map((frame, index) => {
+            const change = alignment.changes.find(c => c.index === index);
+            return change && frameHistory[index] ? frameHistory[index]!.versions[change.before]?.image ?? frame : frame;
+        })
+        : undefined;
+
+    // Whether the frames end up with transparent backgrounds after clean-up
+    const outputHasTransparency = backgroundSettings.enabled
+        ? backgroundSettings.backdrop === 'transparent' || (backgroundSettings.backdrop === 'original' && inputBackground?.kind === 'transparent')
+        : initialImageHasTransparency;
 
     return (
-        <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center p-4 sm:p-6 md:p-10">
+        // Pixel art is shown with hard pixel edges at every size
+        <div className={`min-h-screen bg-gray-900 text-white flex flex-col items-center p-4 sm:p-6 md:p-10 ${pixelGrid ? '[&_img]:[image-rendering:pixelated]' : ''}`}>
+            {pendingCheckpoint && (
+                <div className="w-full max-w-5xl mb-6 flex flex-wrap items-center justify-between gap-3 rounded-lg bg-purple-900/40 px-4 py-3 text-sm text-purple-100 ring-1 ring-purple-500/50">
+                    <span>
+                        An unfinished generation from {new Date(pendingCheckpoint.savedAt).toLocaleString()} was found
+                        ({pendingCheckpoint.generatedFrames.filter(Boolean).length}/{pendingCheckpoint.generatedFrames.length} frames).
+                    </span>
+                    <div className="flex gap-2">
+                        <button onClick={handleRestoreCheckpoint} className="rounded-md bg-purple-600 px-3 py-1.5 font-semibold text-white hover:bg-purple-500">Restore</button>
+                        <button onClick={handleDiscardCheckpoint} className="rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500">Discard</button>
+                    </div>
+                </div>
+            )}
             <header className="w-full max-w-5xl text-center mb-8">
                 <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">
                     AnimaBanana
                 </h1>
                 <p className="text-gray-400 mt-2">Bring your characters to life with AI</p>
+                <div className="mt-4 flex justify-center gap-3">
+                    <label className={`rounded-md bg-gray-700 px-3 py-1.5 text-sm font-semibold text-gray-200 hover:bg-gray-600 ${isBusy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                        Open Project
+                        <input type="file" className="sr-only" accept={`${PROJECT_FILE_EXTENSION},application/zip`} onChange={handleOpenProject} disabled={isBusy} />
+                    </label>
+                    <button
+                        onClick={handleSaveProject}
+                        disabled={isBusy || !initialImage}
+                        className="rounded-md bg-gray-700 px-3 py-1.5 text-sm font-semibold text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Save Project
+                    </button>
+                </div>
             </header>
 
+            <SessionGallery
+                sessions={sessions}
+                currentSessionId={session?.id ?? null}
+                storageEstimate={storageEstimate}
+                disabled={isBusy}
+                onOpen={handleOpenSession}
+                onDuplicate={handleDuplicateSession}
+                onDelete={id => handleDeleteSessions([id])}
+                onCleanUp={handleCleanUpSessions}
+            />
+
             <main className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-2 gap-8 bg-gray-800 p-8 rounded-2xl shadow-2xl">
                 {/* Inputs */}
                 <div className="flex flex-col gap-6">
@@ -764,6 +3741,7 @@ The values should be detailed string descriptions of the position and rotation o
                             </div>
                         </div>
                     </div>
+                    <ReferenceSheetPanel sheet={referenceSheet} disabled={isBusy} onChange={setReferenceSheet} />
                     <div>
                         <label htmlFor="prompt" className="block text-lg font-medium text-gray-300 mb-2">2. Describe Animation</label>
                         <textarea
@@ -775,6 +3753,57 @@ The values should be detailed string descriptions of the position and rotation o
                             onChange={(e) => setPrompt(e.target.value)}
                         />
                     </div>
+                    <div className="flex items-center gap-3">
+                        <label htmlFor="frame-count-slider" className="text-sm font-medium text-gray-300 whitespace-nowrap">
+                            Frames: <span className="font-bold text-gray-200 w-6 inline-block text-right">{numFrames}</span>
+                        </label>
+                        <input
+                            id="frame-count-slider"
+                            type="range"
+                            min={MIN_NUM_FRAMES}
+                            max={MAX_NUM_FRAMES}
+                            value={numFrames}
+                            onChange={(e) => setNumFrames(Number(e.target.value))}
+                            disabled={isBusy}
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500 disabled:opacity-50"
+                            aria-label="Number of frames in the animation"
+                        />
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <label className="flex items-center gap-3 text-sm font-medium text-gray-300">
+                            Rig
+                            <select
+                                value={rig.kind}
+                                onChange={(e) => setRig(prev => ({ ...prev, kind: e.target.value as RigKind }))}
+                                disabled={isBusy}
+                                className="rounded-md border-0 bg-gray-700 py-1.5 px-2 text-white ring-1 ring-inset ring-gray-600"
+                            >
+                                {(Object.keys(RIG_LABELS) as RigKind[]).map(kind => (
+                                    <option key={kind} value={kind}>{RIG_LABELS[kind]}</option>
+                                ))}
+                            </select>
+                            <span className="text-xs font-normal text-gray-500">The parts the planner poses in every frame</span>
+                        </label>
+                        {rig.kind === 'custom' && (
+                            <textarea
+                                rows={4}
+                                value={customRigText}
+                                onChange={(e) => handleCustomRigChange(e.target.value)}
+                                disabled={isBusy}
+                                placeholder={"One part per line, e.g.\nbody: Squash and stretch of the slime's body\neyes: Gaze direction and blinks"}
+                                className="block w-full rounded-md border-0 bg-white/5 py-2 px-3 font-mono text-xs text-white ring-1 ring-inset ring-gray-600 placeholder:text-gray-500"
+                                aria-label="Custom rig parts"
+                            />
+                        )}
+                    </div>
+                    <MotionReferencePanel
+                        files={referenceFiles}
+                        frames={referenceFrames}
+                        isLoading={isLoadingReference}
+                        error={referenceError}
+                        disabled={isBusy}
+                        onChange={setReferenceFiles}
+                    />
                     <div className="flex items-center">
                         <input
                             id="cyclic-checkbox"
@@ -787,16 +3816,275 @@ The values should be detailed string descriptions of the position and rotation o
                             Create cyclic animation (loops seamlessly)
                         </label>
                     </div>
+                    <AnimationSetPanel
+                        animationSet={animationSet}
+                        activeAction={animationSet ? snapshotAction(animationSet.actions[animationSet.active]) : null}
+                        disabled={isBusy || !initialImage}
+                        onStart={handleStartSet}
+                        onChange={setAnimationSet}
+                        onActiveChange={handleActiveActionChange}
+                        onResetAction={handleResetAction}
+                        onGenerate={() => generateSet()}
+                        onLeave={() => setAnimationSet(null)}
+                    />
+                    <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300">
+                        <summary className="cursor-pointer font-medium">Model Settings</summary>
+                        <div className="mt-3 flex flex-col gap-3">
+                            <label className="flex items-center justify-between gap-3">
+                                Provider
+                                <select
+                                    value={providerSettings.kind}
+                                    onChange={(e) => setProviderSettings(prev => ({ ...prev, kind: e.target.value as ProviderKind }))}
+                                    disabled={isBusy}
+                                    className="rounded-md border-0 bg-gray-700 py-1.5 px-2 text-white ring-1 ring-inset ring-gray-600"
+                                >
+                                    {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                                        <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            {(providerSettings.kind === 'gemini' || providerSettings.kind === 'record') && (
+                                <>
+                                    <label className="flex items-center justify-between gap-3">
+                                        Planner model
+                                        <input
+                                            type="text"
+                                            value={providerSettings.plannerModel}
+                                            onChange={(e) => setProviderSettings(prev => ({ ...prev, plannerModel: e.target.value }))}
+                                            disabled={isBusy}
+                                            className="w-64 rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                                        />
+                                    </label>
+                                    <label className="flex items-center justify-between gap-3">
+                                        Image model
+                                        <input
+                                            type="text"
+                                            value={providerSettings.imageModel}
+                                            onChange={(e) => setProviderSettings(prev => ({ ...prev, imageModel: e.target.value }))}
+                                            disabled={isBusy}
+                                            className="w-64 rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600"
+                                        />
+                                    </label>
+                                </>
+                            )}
+                            {providerSettings.kind === 'record' && (
+                                <button
+                                    onClick={handleDownloadRecording}
+                                    disabled={isBusy}
+                                    className="self-start rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50"
+                                >
+                                    Download Recording
+                                </button>
+                            )}
+                            {providerSettings.kind === 'replay' && (
+                                <div className="flex items-center gap-3">
+                                    <label className="cursor-pointer rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500">
+                                        Load Recording
+                                        <input type="file" className="sr-only" accept="application/json,.json" onChange={handleLoadRecording} />
+                                    </label>
+                                    <span className="text-gray-400">
+                                        {replayRecording ? `${replayRecording.calls.length} recorded responses` : 'No recording loaded'}
+                                    </span>
+                                </div>
+                            )}
+                        </div>
+                    </details>
+                    <CostPanel
+                        ledger={ledger}
+                        pricing={pricing}
+                        budget={budget}
+                        models={[getModelName(providerSettings, 'plan'), getModelName(providerSettings, 'editImage')]}
+                        disabled={isBusy}
+                        onPricingChange={setPricing}
+                        onBudgetChange={setBudget}
+                        onDownloadCsv={handleDownloadLedger}
+                    />
+                    <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300">
+                        <summary className="cursor-pointer font-medium">Background</summary>
+                        <div className="mt-3 flex flex-col gap-3">
+                            <p className="flex items-center gap-2 text-gray-400">
+                                Detected input background:
+                                {!inputBackground ? ' —' : inputBackground.kind === 'solid' ? (
+                                    <>
+                                        <span className="inline-block h-4 w-4 rounded ring-1 ring-gray-500" style={{ backgroundColor: rgbToHex(inputBackground.color) }} />
+                                        solid {rgbToHex(inputBackground.color)}
+                                    </>
+                                ) : inputBackground.kind === 'transparent' ? ' transparent' : ' complex (cannot be keyed)'}
+                            </p>
+                            <label className="flex items-center gap-3">
+                                <input
+                                    type="checkbox"
+                                    checked={backgroundSettings.enabled}
+                                    onChange={(e) => setBackgroundSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-purple-600 focus:ring-purple-600 focus:ring-offset-gray-800"
+                                />
+                                Clean up the background of every new frame
+                            </label>
+                            <label className="flex items-center justify-between gap-3">
+                                Backdrop
+                                <div className="flex items-center gap-2">
+                                    {backgroundSettings.backdrop === 'solid' && (
+                                        <input
+                                            type="color"
+                                            value={backgroundSettings.backdropColor}
+                                            onChange={(e) => setBackgroundSettings(prev => ({ ...prev, backdropColor: e.target.value }))}
+                                            className="h-7 w-7 cursor-pointer bg-transparent"
+                                            aria-label="Backdrop colour"
+                                        />
+                                    )}
+                                    <select
+                                        value={backgroundSettings.backdrop}
+                                        onChange={(e) => setBackgroundSettings(prev => ({ ...prev, backdrop: e.target.value as BackdropMode }))}
+                                        className="rounded-md border-0 bg-gray-700 py-1.5 px-2 text-white ring-1 ring-inset ring-gray-600"
+                                    >
+                                        {(Object.keys(BACKDROP_LABELS) as BackdropMode[]).map(mode => (
+                                            <option key={mode} value={mode}>{BACKDROP_LABELS[mode]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </label>
+                            <label className="flex items-center justify-between gap-3">
+                                Tolerance
+                                <input
+                                    type="range"
+                                    min="5"
+                                    max="150"
+                                    value={backgroundSettings.tolerance}
+                                    onChange={(e) => setBackgroundSettings(prev => ({ ...prev, tolerance: Number(e.target.value) }))}
+                                    className="w-40 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                />
+                            </label>
+                            <label className="flex items-center justify-between gap-3">
+                                Edge feathering
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    value={backgroundSettings.feather}
+                                    onChange={(e) => setBackgroundSettings(prev => ({ ...prev, feather: Number(e.target.value) }))}
+                                    className="w-40 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                />
+                            </label>
+                            <button
+                                onClick={handleApplyBackground}
+                                disabled={isBusy || isExporting || !hasGeneratedFrames}
+                                className="self-start rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Apply to Current Frames
+                            </button>
+                        </div>
+                    </details>
+                    <details className="rounded-lg bg-black/20 px-4 py-3 text-sm text-gray-300" open={pixelArtSettings.enabled}>
+                        <summary className="cursor-pointer font-medium">Pixel Art</summary>
+                        <div className="mt-3 flex flex-col gap-3">
+                            <label className="flex items-center gap-3">
+                                <input
+                                    type="checkbox"
+                                    checked={pixelArtSettings.enabled}
+                                    onChange={(e) => setPixelArtSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                                    disabled={isBusy}
+                                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-purple-600 focus:ring-purple-600 focus:ring-offset-gray-800"
+                                />
+                                Pixel-art mode
+                            </label>
+                            <p className="text-xs text-gray-500">Uploads are scaled up without smoothing, every new frame is snapped to the sprite's pixel grid, and exports are at the native resolution. Turn it on before uploading the sprite.</p>
+                            <label className="flex items-center justify-between gap-3">
+                                Pixel size of the upload
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={64}
+                                        value={pixelArtSettings.pixelSize ?? ''}
+                                        onChange={(e) => setPixelArtSettings(prev => ({ ...prev, pixelSize: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : null }))}
+                                        disabled={!pixelArtSettings.enabled || isBusy}
+                                        placeholder="Auto"
+                                        className="w-20 rounded-md border-0 bg-white/5 py-1 px-2 text-white ring-1 ring-inset ring-gray-600 placeholder:text-gray-500 disabled:opacity-50"
+                                        aria-label="Size of one art pixel in the uploaded image, or empty to detect it"
+                                    />
+                                    px
+                                </div>
+                            </label>
+                            <label className="flex items-center gap-3">
+                                <input
+                                    type="checkbox"
+                                    checked={pixelArtSettings.paletteLock}
+                                    onChange={(e) => setPixelArtSettings(prev => ({ ...prev, paletteLock: e.target.checked }))}
+                                    disabled={!pixelArtSettings.enabled || isBusy}
+                                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-purple-600 focus:ring-purple-600 focus:ring-offset-gray-800"
+                                />
+                                Lock to the sprite's palette
+                            </label>
+                            {pixelGrid && (
+                                <div className="flex flex-col gap-2">
+                                    <p className="text-gray-400">
+                                        Native size {pixelGrid.width}&times;{pixelGrid.height}, shown at {pixelGrid.pixelSize}&times;, {pixelGrid.palette.length} colour{pixelGrid.palette.length === 1 ? '' : 's'}
+                                    </p>
+                                    {pixelArtSettings.paletteLock && (
+                                        <div className="flex flex-wrap gap-0.5">
+                                            {pixelGrid.palette.map((color, index) => (
+                                                <span key={index} title={rgbToHex(color)} className="inline-block h-3 w-3 ring-1 ring-black/40" style={{ backgroundColor: rgbToHex(color) }} />
+                                            ))}
+                                        </div>
+                                    )}
+                                    <button
+                                        onClick={handleApplyPixelGrid}
+                                        disabled={isBusy || isExporting || !hasGeneratedFrames}
+                                        className="self-start rounded-md bg-gray-600 px-3 py-1.5 font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Snap Current Frames
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    </details>
+                    <button
+                        onClick={generatePlan}
+                        disabled={isBusy || !prompt}
+                        className={`w-full rounded-md px-4 py-3 text-base font-semibold text-white shadow-sm focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all ${hasPlan ? 'bg-gray-600 hover:bg-gray-500' : 'bg-purple-600 hover:bg-purple-500'}`}
+                    >
+                        {isPlanning ? 'Generating animation plan...' : hasPlan ? 'Regenerate Plan' : '3. Generate Plan'}
+                    </button>
+                    {hasPlan && framePrompts.length !== numFrames && (
+                        <p className="text-yellow-400 text-xs -mt-4">
+                            The current plan has {framePrompts.length} frames. Regenerate the plan to use {numFrames} frames.
+                        </p>
+                    )}
                     <button
                         onClick={generateAnimation}
-                        disabled={isLoading || !initialImage || !prompt}
+                        disabled={isBusy || !initialImage || !hasPlan}
                         className="w-full rounded-md bg-purple-600 px-4 py-3 text-base font-semibold text-white shadow-sm hover:bg-purple-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                     >
                         {getLoadingText()}
                     </button>
-                    {(isLoading || hasGeneratedFrames) && (
+                    {isBusy && (
+                        <button
+                            onClick={handleCancel}
+                            className="w-full rounded-md bg-red-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-red-500 transition-all"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    {canResume && (
+                        <button
+                            onClick={resumeGeneration}
+                            className="w-full rounded-md bg-pink-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-pink-500 transition-all"
+                        >
+                            Resume ({missingFrameCount} missing frame{missingFrameCount === 1 ? '' : 's'})
+                        </button>
+                    )}
+                    {canResume && budgetPaused && (
+                        <button
+                            onClick={continuePastBudget}
+                            className="w-full rounded-md bg-amber-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-amber-500 transition-all"
+                        >
+                            Continue Anyway (over budget)
+                        </button>
+                    )}
+                    {(isBusy || hasPlan || hasGeneratedFrames) && (
                         <div className="text-center text-sm text-gray-400 mt-2">
                             Estimated Cost: <span className="font-semibold text-gray-300">${estimatedCost.toFixed(5)}</span>
+                            {budget.limit !== null && <> of ${budget.limit.toFixed(2)} budget</>}
                         </div>
                     )}
                     {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
@@ -804,7 +4092,27 @@ The values should be detailed string descriptions of the position and rotation o
                 
                 {/* Output */}
                 <div className="flex flex-col items-center justify-center bg-black/20 rounded-lg p-4 min-h-[300px]">
-                    {hasGeneratedFrames ? (
+                    {animationSet && (
+                        <div role="tablist" className="mb-4 flex w-full flex-wrap gap-1 border-b border-gray-700">
+                            {getSetActions(animationSet).map((action, index) => {
+                                const done = getActiveFrames(action.frameHistory).filter(Boolean).length;
+                                return (
+                                    <button
+                                        key={index}
+                                        role="tab"
+                                        aria-selected={index === animationSet.active}
+                                        onClick={() => handleSelectAction(index)}
+                                        disabled={isBusy || isExporting}
+                                        className={`rounded-t-md px-3 py-1.5 text-sm font-semibold disabled:cursor-not-allowed ${index === animationSet.active ? 'bg-pink-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                    >
+                                        {action.name || `Action ${index + 1}`}
+                                        <span className="ml-1 text-xs font-normal opacity-75">{done}/{action.framePrompts.length || action.numFrames}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {generatedFrames.length > 0 ? (
                         <div className="w-full">
                             {isLoading && (
                                 <div className="relative pt-1">
@@ -814,8 +4122,13 @@ The values should be detailed string descriptions of the position and rotation o
                                 </div>
                             )}
                             {!isLoading && <h3 className="text-xl font-semibold mb-2 text-center">Generated Frames</h3>}
+                            {!isLoading && frameScores.some(score => score?.outlier) && (
+                                <p className="text-xs text-amber-300 text-center mb-2">
+                                    {frameScores.filter(score => score?.outlier).length} frame(s) look inconsistent and were pre-selected for correction. Hover a frame to see its scores.
+                                </p>
+                            )}
                              {isGenerationComplete && (
-                                <div className="text-center mb-4">
+                                <div className="flex flex-wrap justify-center gap-2 mb-4">
                                     <button
                                         onClick={() => {
                                             if (selectedFrameIndices.length > 0) {
@@ -827,18 +4140,64 @@ The values should be detailed string descriptions of the position and rotation o
                                     >
                                         Correct {selectedFrameIndices.length > 0 ? `${selectedFrameIndices.length} ` : ''}Selected Frame(s)
                                     </button>
+                                    <div className="flex items-center gap-1">
+                                        <button
+                                            onClick={handleInsertInBetweens}
+                                            disabled={isBusy || !canInsertInBetweens}
+                                            title={`Select two adjacent frames to insert new frames between them (up to ${MAX_NUM_FRAMES} frames)`}
+                                            className="rounded-md bg-purple-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                                        >
+                                            Insert In-betweens
+                                        </button>
+                                        <select
+                                            value={insertCount}
+                                            onChange={(e) => setInsertCount(Number(e.target.value))}
+                                            className="rounded-md border-0 bg-gray-700 py-2 px-2 text-sm text-white ring-1 ring-inset ring-gray-600"
+                                            aria-label="Number of in-betweens to insert"
+                                        >
+                                            {[1, 2, 3].map(n => <option key={n} value={n}>&times;{n}</option>)}
+                                        </select>
+                                    </div>
+                                    <button
+                                        onClick={handleDoubleFrameRate}
+                                        disabled={isBusy || !canDoubleFrameRate}
+                                        title={`Insert a frame between every pair and double the frame rate (up to ${MAX_NUM_FRAMES} frames)`}
+                                        className="rounded-md bg-gray-600 px-3 py-2 text-sm font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Double Frame Rate
+                                    </button>
+                                    <button
+                                        onClick={handleUndo}
+                                        disabled={undoStack.length === 0}
+                                        title={undoStack.length > 0 ? `Undo: ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                                        className="rounded-md bg-gray-600 px-3 py-2 text-sm font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Undo
+                                    </button>
+                                    <button
+                                        onClick={handleRedo}
+                                        disabled={redoStack.length === 0}
+                                        title={redoStack.length > 0 ? `Redo: ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                                        className="rounded-md bg-gray-600 px-3 py-2 text-sm font-semibold text-white hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Redo
+                                    </button>
                                 </div>
                             )}
-                            <div className="grid grid-cols-3 gap-2">
+                            <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${getGridColumns(generatedFrames.length)}, minmax(0, 1fr))` }}>
                                 {generatedFrames.map((frame, index) => (
                                     frame ? 
                                     <div key={index} className="relative">
                                         <img 
                                             src={frame} 
                                             alt={`Frame ${index + 1}`} 
-                                            className={`w-full aspect-square object-contain rounded-md bg-gray-700 transition-all ${isGenerationComplete ? 'cursor-pointer hover:opacity-80' : ''} ${selectedFrameIndices.includes(index) ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-pink-500' : ''}`}
+                                            title={frameScores[index] ? formatFrameScore(frameScores[index]!) : undefined}
+                                            className={`w-full aspect-square object-contain rounded-md bg-gray-700 transition-all ${isGenerationComplete ? 'cursor-pointer hover:opacity-80' : ''} ${selectedFrameIndices.includes(index) ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-pink-500' : frameScores[index]?.outlier ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-amber-400' : ''}`}
                                             onClick={() => handleFrameSelect(index)}
                                         />
+                                        {frameScores[index]?.outlier && (
+                                            <div className="absolute top-1 left-1 rounded-full bg-amber-400 px-1.5 text-xs font-bold text-gray-900 pointer-events-none" aria-label="Inconsistent frame">!</div>
+                                        )}
                                         {selectedFrameIndices.includes(index) && (
                                             <div className="absolute top-1 right-1 bg-pink-500 rounded-full text-white p-0.5 pointer-events-none">
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3">
@@ -846,9 +4205,31 @@ The values should be detailed string descriptions of the position and rotation o
                                                 </svg>
                                             </div>
                                         )}
+                                        {isGenerationComplete && (frameHistory[index]?.versions.length ?? 0) > 1 && (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    setHistoryFrameIndex(index);
+                                                }}
+                                                className="absolute bottom-1 left-1 rounded bg-black/70 px-1 text-[10px] font-mono text-gray-200 hover:bg-purple-600"
+                                                title="Show the versions of this frame"
+                                            >
+                                                v{frameHistory[index]!.active + 1}/{frameHistory[index]!.versions.length}
+                                            </button>
+                                        )}
                                     </div>
                                     :
+                                    isLoading && !frameErrors[index] ?
                                     <div key={index} className="w-full aspect-square rounded-md bg-gray-700 animate-pulse"></div>
+                                    :
+                                    <div
+                                        key={index}
+                                        title={frameErrors[index] ?? 'This frame has not been generated yet.'}
+                                        className="w-full aspect-square rounded-md bg-red-900/30 ring-1 ring-red-500/60 flex flex-col items-center justify-center gap-1 p-1 text-center overflow-hidden"
+                                    >
+                                        <span className="text-xs font-semibold text-red-300">{frameErrors[index] ? 'Failed' : 'Missing'}</span>
+                                        <span className="text-[10px] leading-tight text-red-200/80 break-words">{frameErrors[index] ?? `Frame ${index + 1}`}</span>
+                                    </div>
                                 ))}
                             </div>
                         </div>
@@ -860,6 +4241,24 @@ The values should be detailed string descriptions of the position and rotation o
                 </div>
             </main>
 
+            {hasPlan && (
+                <section className="w-full max-w-5xl mt-8 bg-gray-800 p-8 rounded-2xl shadow-2xl">
+                    <h2 className="text-2xl font-bold mb-2 text-center text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">
+                        Animation Plan
+                    </h2>
+                    <p className="text-sm text-gray-400 text-center mb-4">Review and edit the pose of every frame before generating any images.</p>
+                    <KeyframeSlots count={framePrompts.length} keyframes={keyframes} disabled={isBusy} onChange={setKeyframes} />
+                    <PlanEditor
+                        framePrompts={framePrompts}
+                        poseKeys={Object.keys(getPoseProperties(rig))}
+                        disabled={isBusy}
+                        onChange={setFramePrompts}
+                        onReplan={replanFrames}
+                        onRegenerate={generatePlan}
+                    />
+                </section>
+            )}
+
             {hasGeneratedFrames && (
                  <section className="w-full max-w-5xl mt-8 bg-gray-800 p-8 rounded-2xl shadow-2xl text-center">
                     <h2 className="text-2xl font-bold mb-4 text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-pink-600">
@@ -874,23 +4273,127 @@ The values should be detailed string descriptions of the position and rotation o
                                 id="fps-slider"
                                 type="range"
                                 min="1"
-                                max="20"
+                                max={MAX_FPS}
                                 value={fps}
                                 onChange={(e) => setFps(Number(e.target.value))}
                                 className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-pink-500"
                                 aria-label="Animation speed in frames per second"
                             />
                         </div>
-                        <AnimationPlayer frames={generatedFrames} fps={fps} />
+                        <div className="flex items-center mb-4">
+                            <input
+                                id="loop-checkbox"
+                                type="checkbox"
+                                checked={exportLoop}
+                                onChange={(e) => setLoop(e.target.checked)}
+                                disabled={!isLoopingMode(activeTimeline.mode)}
+                                className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-pink-600 focus:ring-pink-600 focus:ring-offset-gray-800"
+                            />
+                            <label htmlFor="loop-checkbox" className="ml-3 block text-sm font-medium text-gray-300">
+                                Loop exported animation
+                            </label>
+                        </div>
+                        <AnimationPlayer frames={generatedFrames} beforeFrames={preAlignmentFrames} referenceFrames={referenceFrames} timeline={activeTimeline} fps={fps} onionSkin={onionSkin} onOnionSkinChange={setOnionSkin} />
+                        <TimelineEditor frames={generatedFrames} timeline={activeTimeline} fps={fps} onChange={setTimeline} />
+                        {isGenerationComplete && generatedFrames[0] && (
+                            <AlignmentPanel
+                                referenceFrame={generatedFrames[0]}
+                                settings={alignmentSettings}
+                                transforms={alignment?.transforms ?? null}
+                                disabled={isBusy || isExporting}
+                                canRevert={alignment !== null}
+                                onChange={setAlignmentSettings}
+                                onAlign={handleAlignFrames}
+                                onRevert={handleRevertAlignment}
+                            />
+                        )}
                     </div>
                     {isGenerationComplete && (
-                         <div className="mt-6">
+                         <div className="mt-6 flex flex-wrap justify-center gap-3">
                             <button
                                 onClick={handleDownload}
+                                disabled={isExporting}
                                 className="rounded-md bg-pink-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-pink-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                             >
                                 Download Frames (.zip)
                             </button>
+                            <button
+                                onClick={handleDownloadGif}
+                                disabled={isExporting}
+                                className="rounded-md bg-pink-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-pink-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                                Download GIF
+                            </button>
+                            <button
+                                onClick={handleDownloadWebp}
+                                disabled={isExporting}
+                                className="rounded-md bg-pink-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-pink-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                                Download WebP
+                            </button>
+                            <button
+                                onClick={handleDownloadApng}
+                                disabled={isExporting}
+                                className="rounded-md bg-pink-600 px-4 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-pink-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                                Download APNG
+                            </button>
+                        </div>
+                    )}
+                    {isGenerationComplete && (
+                        <div className="mt-4 flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+                            <label htmlFor="spritesheet-layout">Sprite sheet:</label>
+                            <select
+                                id="spritesheet-layout"
+                                value={spriteSheetLayout}
+                                onChange={(e) => setSpriteSheetLayout(e.target.value as SpriteSheetLayout)}
+                                className="rounded-md border-0 bg-gray-700 py-1.5 px-2 text-white ring-1 ring-inset ring-gray-600 focus:ring-2 focus:ring-pink-500"
+                            >
+                                <option value="grid">Grid</option>
+                                <option value="packed">Packed (trimmed)</option>
+                            </select>
+                            <select
+                                id="atlas-format"
+                                value={atlasFormat}
+                                onChange={(e) => setAtlasFormat(e.target.value as AtlasFormat)}
+                                className="rounded-md border-0 bg-gray-700 py-1.5 px-2 text-white ring-1 ring-inset ring-gray-600 focus:ring-2 focus:ring-pink-500"
+                                aria-label="Atlas format"
+                            >
+                                <option value="hash">JSON (Hash)</option>
+                                <option value="array">JSON (Array)</option>
+                            </select>
+                            <button
+                                onClick={handleDownloadSpriteSheet}
+                                disabled={isExporting}
+                                className="rounded-md bg-gray-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                            >
+                                Download Sprite Sheet
+                            </button>
+                            {animationSet && (
+                                <button
+                                    onClick={handleDownloadSet}
+                                    disabled={isExporting}
+                                    className="rounded-md bg-gray-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                                >
+                                    Download Whole Set (.zip)
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {(isGenerationComplete || directionVariants) && (
+                        <div className="mt-6">
+                            <DirectionPanel
+                                settings={directionSettings}
+                                variants={directionVariants}
+                                timeline={activeTimeline}
+                                fps={fps}
+                                disabled={isBusy || isExporting}
+                                budgetPaused={budgetPaused}
+                                onChange={setDirectionSettings}
+                                onGenerate={() => generateDirections()}
+                                onContinue={() => generateDirections(true)}
+                                onDownload={handleDownloadDirections}
+                            />
                         </div>
                     )}
                 </section>
@@ -898,15 +4401,29 @@ The values should be detailed string descriptions of the position and rotation o
             
             {editingFrameIndices !== null && editingFrameIndices.length > 0 && initialImage && (
                 <FrameCorrectionModal 
+                    editImage={(request, frameIndex) => meteredEditImage(request, 'correction', frameIndex)}
                     frameIndices={editingFrameIndices}
                     generatedFrames={generatedFrames}
-                    initialImage={initialImage}
+                    initialImage={animationSet?.baseFrame ?? initialImage}
+                    referenceSheet={referenceSheet}
                     backgroundInstruction={backgroundInstruction}
+                    onionSkin={onionSkin}
+                    onOnionSkinChange={setOnionSkin}
+                    postProcessFrame={postProcessFrame}
                     onClose={() => setEditingFrameIndices(null)}
                     onRegenerate={handleFramesRegenerate}
                 />
             )}
 
+            {historyFrameIndex !== null && frameHistory[historyFrameIndex] && (
+                <FrameHistoryModal
+                    frameIndex={historyFrameIndex}
+                    history={frameHistory[historyFrameIndex]!}
+                    onClose={() => setHistoryFrameIndex(null)}
+                    onSelectVersion={(version) => handleSelectVersion(historyFrameIndex, version)}
+                />
+            )}
+
         </div>
     );
 };
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ModelUsage } from './providers';
+
+// The cost ledger records every model call with its token usage and price, so the total
+// matches what was actually called rather than a per-frame guess. Prices come from an
+// editable table, and a budget limit is checked before each call is made.
+
+export type CallPurpose = 'plan' | 'replan' | 'base-frame' | 'direction-base' | 'first-frame' | 'last-frame' | 'in-between' | 'correction';
+
+export const CALL_PURPOSE_LABELS: Record<CallPurpose, string> = {
+    plan: 'Plan',
+    replan: 'Re-plan',
+    'base-frame': 'Set base frame',
+    'direction-base': 'Turned base pose',
+    'first-frame': 'First frame',
+    'last-frame': 'Last frame',
+    'in-between': 'In-between',
+    correction: 'Correction',
+};
+
+export interface ModelPricing {
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    perImage: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+// Based on published Google AI prices. These are for estimation purposes only; edit the
+// table to match your own billing.
+export const DEFAULT_PRICING: PricingTable = {
+    'gemini-2.5-flash': { inputPerMillionTokens: 0.35, outputPerMillionTokens: 0.70, perImage: 0 },
+    'gemini-2.5-flash-image-preview': { inputPerMillionTokens: 0.30, outputPerMillionTokens: 0, perImage: 0.018 },
+};
+
+export interface LedgerEntry {
+    timestamp: string;
+    model: string;
+    purpose: CallPurpose;
+    // The frame the call was for, if any.
+    frameIndex?: number;
+    inputTokens: number;
+    outputTokens: number;
+    // Number of images the call returned.
+    images: number;
+    cost: number;
+}
+
+export type BudgetAction = 'block' | 'pause';
+
+export interface BudgetSettings {
+    // Spending limit in dollars for the current project; null means no limit.
+    limit: number | null;
+    // 'block' refuses the call outright; 'pause' stops and lets the user continue anyway.
+    action: BudgetAction;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { limit: null, action: 'pause' };
+
+// Rough token counts used to estimate a call before it is made.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_INPUT_IMAGE = 258;
+const PLAN_TOKENS_PER_FRAME = 150;
+
+export class BudgetExceededError extends Error {
+    constructor(public readonly limit: number, public readonly action: BudgetAction) {
+        super(`The next call would go over the budget of $${limit.toFixed(2)}.`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+const getPricing = (pricing: PricingTable, model: string): ModelPricing =>
+    pricing[model] ?? { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+
+export const getCallCost = (pricing: PricingTable, model: string, usage: ModelUsage | undefined, images: number): number => {
+    const price = getPricing(pricing, model);
+    return ((usage?.promptTokenCount ?? 0) / 1_000_000) * price.inputPerMillionTokens
+        + ((usage?.candidatesTokenCount ?? 0) / 1_000_000) * price.outputPerMillionTokens
+        + images * price.perImage;
+};
+
+// Helper to estimate an image call up front: its prompt and reference images in, one image out
+export const estimateImageCallCost = (pricing: PricingTable, model: string, prompt: string, referenceImages: number): number =>
+    getCallCost(pricing, model, { promptTokenCount: prompt.length / CHARS_PER_TOKEN + referenceImages * TOKENS_PER_INPUT_IMAGE }, 1);
+
+// Helper to estimate a planner call up front, from its prompt, any reference images and the number of frames it returns
+export const estimatePlanCallCost = (pricing: PricingTable, model: string, prompt: string, frames: number, referenceImages = 0): number =>
+    getCallCost(pricing, model, {
+        promptTokenCount: prompt.length / CHARS_PER_TOKEN + referenceImages * TOKENS_PER_INPUT_IMAGE,
+        candidatesTokenCount: frames * PLAN_TOKENS_PER_FRAME,
+    }, 0);
+
+const csvField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ledgerToCsv = (entries: LedgerEntry[]): string => {
+    const header = ['timestamp', 'model', 'purpose', 'frame', 'input_tokens', 'output_tokens', 'images', 'cost_usd'];
+    const rows = entries.map(entry => [
+        entry.timestamp,
+        entry.model,
+        entry.purpose,
+        entry.frameIndex === undefined ? '' : entry.frameIndex + 1,
+        entry.inputTokens,
+        entry.outputTokens,
+        entry.images,
+        entry.cost.toFixed(6),
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
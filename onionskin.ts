@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadImage } from './images';
+
+// Onion skinning overlays the neighbours of a frame as tinted, semi-transparent "ghosts",
+// so the motion between frames can be judged in a single view. Ghosts are drawn over the
+// frame rather than under it, because most frames have an opaque background.
+
+export interface OnionSkinSettings {
+    enabled: boolean;
+    // How many earlier and later frames to show.
+    before: number;
+    after: number;
+    // Opacity of the nearest ghost; farther ghosts fade out.
+    opacity: number;
+    pastColor: string;
+    futureColor: string;
+}
+
+export const DEFAULT_ONION_SKIN_SETTINGS: OnionSkinSettings = {
+    enabled: false,
+    before: 1,
+    after: 1,
+    opacity: 0.4,
+    pastColor: '#ff4d6d',
+    futureColor: '#34d399',
+};
+
+export const MAX_ONION_SKIN_FRAMES = 5;
+
+// How strongly a ghost is tinted towards its colour; 1 would make it a flat silhouette.
+const TINT_STRENGTH = 0.6;
+
+export interface OnionSkinLayer {
+    image: string;
+    color: string;
+    opacity: number;
+}
+
+// Helper to list the ghosts of frame `index`, farthest first so nearer ghosts are drawn on top.
+// With `wrap`, a looping animation shows the end of the loop before its first frame and vice versa.
+export const getOnionSkinLayers = (frames: (string | null)[], index: number, settings: OnionSkinSettings, wrap: boolean): OnionSkinLayer[] => {
+    if (!settings.enabled) return [];
+    const layers: OnionSkinLayer[] = [];
+    const addLayers = (count: number, direction: -1 | 1, color: string) => {
+        for (let distance = count; distance >= 1; distance--) {
+            let i = index + direction * distance;
+            if (wrap) i = ((i % frames.length) + frames.length) % frames.length;
+            const image = frames[i];
+            if (i === index || !image) continue;
+            layers.push({ image, color, opacity: settings.opacity * (1 - (distance - 1) / (count + 1)) });
+        }
+    };
+    addLayers(settings.before, -1, settings.pastColor);
+    addLayers(settings.after, 1, settings.futureColor);
+    return layers;
+};
+
+// Helper to draw the frame and then its ghosts onto a new canvas of the frame's size
+export const renderOnionSkin = async (frame: string, layers: OnionSkinLayer[]): Promise<HTMLCanvasElement> => {
+    const [current, ...ghosts] = await Promise.all([frame, ...layers.map(layer => layer.image)].map(loadImage));
+    const width = current.naturalWidth;
+    const height = current.naturalHeight;
+    const canvas = document.createElement('canvas');
+    const scratch = document.createElement('canvas');
+    canvas.width = scratch.width = width;
+    canvas.height = scratch.height = height;
+    const ctx = canvas.getContext('2d');
+    const scratchCtx = scratch.getContext('2d');
+    if (!ctx || !scratchCtx) throw new Error('Could not create a canvas for onion skinning.');
+
+    ctx.drawImage(current, 0, 0, width, height);
+    ghosts.forEach((ghost, i) => {
+        // Tint only the ghost's own pixels, keeping its transparency
+        scratchCtx.globalCompositeOperation = 'source-over';
+        scratchCtx.globalAlpha = 1;
+        scratchCtx.clearRect(0, 0, width, height);
+        scratchCtx.drawImage(ghost, 0, 0, width, height);
+        scratchCtx.globalCompositeOperation = 'source-atop';
+        scratchCtx.globalAlpha = TINT_STRENGTH;
+        scratchCtx.fillStyle = layers[i].color;
+        scratchCtx.fillRect(0, 0, width, height);
+
+        ctx.globalAlpha = layers[i].opacity;
+        ctx.drawImage(scratch, 0, 0);
+    });
+    ctx.globalAlpha = 1;
+    return canvas;
+};
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Pixel-art mode. The sprite's native pixel grid is detected from the upload, which is
+// scaled up without smoothing so the model sees clear, large pixels. The model's
+// anti-aliased frames are snapped back onto that grid, one vote per art pixel, and
+// optionally locked to the exact palette of the original sprite. Exports are written
+// at the native resolution.
+
+export interface PixelArtSettings {
+    enabled: boolean;
+    // Size of one art pixel in the uploaded image; null detects it.
+    pixelSize: number | null;
+    // Quantize every frame to the colours of the original sprite.
+    paletteLock: boolean;
+}
+
+export const DEFAULT_PIXEL_ART_SETTINGS: PixelArtSettings = { enabled: false, pixelSize: null, paletteLock: true };
+
+export type PaletteColor = [number, number, number];
+
+// The pixel grid of the working image: `width` x `height` art pixels of `pixelSize` each.
+export interface PixelGrid {
+    pixelSize: number;
+    width: number;
+    height: number;
+    // The sprite's colours, most used first.
+    palette: PaletteColor[];
+}
+
+// The model works best with images around this size.
+export const PIXEL_ART_WORKING_SIZE = 512;
+const MAX_PIXEL_SIZE = 64;
+const MAX_PALETTE_SIZE = 256;
+// Pixels with alpha below this are transparent; pixel art has no partial transparency.
+const ALPHA_THRESHOLD = 128;
+// Share of colour runs that must fit a pixel size for it to be accepted.
+const RUN_AGREEMENT = 0.95;
+// Fewer colour runs than this is too little to tell a pixel size from.
+const MIN_RUNS = 8;
+
+const isOpaque = (data: Uint8ClampedArray, offset: number): boolean => data[offset + 3] >= ALPHA_THRESHOLD;
+
+// Helper to compare two pixels, treating all transparent pixels as equal
+const samePixel = (data: Uint8ClampedArray, a: number, b: number): boolean => {
+    const opaqueA = isOpaque(data, a);
+    if (opaqueA !== isOpaque(data, b)) return false;
+    return !opaqueA || (data[a] === data[b] && data[a + 1] === data[b + 1] && data[a + 2] === data[b + 2]);
+};
+
+// Detects the size of one art pixel from the lengths of the runs of identical pixels along
+// rows and columns. Runs touching the image edge are skipped, since they may be cut short.
+export const detectPixelSize = (image: ImageData): number => {
+    const { width, height, data } = image;
+    // How many runs there are of each length; large images have millions of runs
+    const runs = new Map<number, number>();
+    let runCount = 0;
+    const collect = (length: number, step: (i: number) => number) => {
+        let runStart = 0;
+        for (let i = 1; i <= length; i++) {
+            if (i < length && samePixel(data, step(i - 1), step(i))) continue;
+            if (runStart > 0 && i < length) {
+                runs.set(i - runStart, (runs.get(i - runStart) ?? 0) + 1);
+                runCount++;
+            }
+            runStart = i;
+        }
+    };
+    for (let y = 0; y < height; y++) collect(width, x => (y * width + x) * 4);
+    for (let x = 0; x < width; x++) collect(height, y => (y * width + x) * 4);
+    if (runCount < MIN_RUNS) return 1;
+
+    for (let size = Math.min(MAX_PIXEL_SIZE, Math.floor(Math.min(width, height) / 2)); size > 1; size--) {
+        let fitting = 0;
+        runs.forEach((count, run) => {
+            if (run % size === 0) fitting += count;
+        });
+        if (fitting / runCount >= RUN_AGREEMENT) return size;
+    }
+    return 1;
+};
+
+// Helper to scale an image to `width` x `height` by sampling the centre of every target pixel
+export const downscaleNearest = (image: ImageData, width: number, height: number): ImageData => {
+    const out = new ImageData(width, height);
+    for (let y = 0; y < height; y++) {
+        const sy = Math.min(image.height - 1, Math.floor((y + 0.5) * image.height / height));
+        for (let x = 0; x < width; x++) {
+            const sx = Math.min(image.width - 1, Math.floor((x + 0.5) * image.width / width));
+            const o = (sy * image.width + sx) * 4;
+            out.data.set(image.data.subarray(o, o + 4), (y * width + x) * 4);
+        }
+    }
+    return out;
+};
+
+export const upscaleNearest = (image: ImageData, factor: number): ImageData => {
+    const out = new ImageData(image.width * factor, image.height * factor);
+    for (let y = 0; y < out.height; y++) {
+        const sy = Math.floor(y / factor);
+        for (let x = 0; x < out.width; x++) {
+            const o = (sy * image.width + Math.floor(x / factor)) * 4;
+            out.data.set(image.data.subarray(o, o + 4), (y * out.width + x) * 4);
+        }
+    }
+    return out;
+};
+
+// Helper to pick the whole-number scale that brings a native sprite close to the working size
+export const getWorkingScale = (width: number, height: number): number =>
+    Math.max(1, Math.floor(PIXEL_ART_WORKING_SIZE / Math.max(width, height)));
+
+// Helper to list the colours of a native-resolution sprite, most used first
+const getPalette = ({ data }: ImageData): PaletteColor[] => {
+    const counts = new Map<number, number>();
+    for (let o = 0; o < data.length; o += 4) {
+        if (!isOpaque(data, o)) continue;
+        const key = (data[o] << 16) | (data[o + 1] << 8) | data[o + 2];
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_PALETTE_SIZE)
+        .map(([key]): PaletteColor => [(key >> 16) & 255, (key >> 8) & 255, key & 255]);
+};
+
+// Reduces an uploaded sprite to its native resolution and scales it back up, without
+// smoothing, to the working size. `pixelSize` overrides the detected grid. The grid comes
+// from the native resolution and the scale chosen here, so it is exact. Returns null when
+// the native resolution is still larger than the working size, e.g. for a photo or a
+// high-resolution painting, which are not pixel art.
+export const prepareSprite = (image: ImageData, pixelSize: number | null): { image: ImageData; grid: PixelGrid } | null => {
+    const size = pixelSize ?? detectPixelSize(image);
+    const native = downscaleNearest(image, Math.max(1, Math.round(image.width / size)), Math.max(1, Math.round(image.height / size)));
+    if (Math.max(native.width, native.height) > PIXEL_ART_WORKING_SIZE) return null;
+    const scale = getWorkingScale(native.width, native.height);
+    return {
+        image: upscaleNearest(native, scale),
+        grid: { pixelSize: scale, width: native.width, height: native.height, palette: getPalette(native) },
+    };
+};
+
+// Finds the pixel grid and palette of a working image that was not prepared on upload,
+// e.g. one from a saved project. Detection can only guess the grid, so prefer the one
+// `prepareSprite` returns.
+export const analyzePixelGrid = (image: ImageData): PixelGrid => {
+    const pixelSize = detectPixelSize(image);
+    const width = Math.max(1, Math.round(image.width / pixelSize));
+    const height = Math.max(1, Math.round(image.height / pixelSize));
+    return { pixelSize, width, height, palette: getPalette(downscaleNearest(image, width, height)) };
+};
+
+// Snaps a frame of any size onto the grid. Every art pixel takes the colour most of its
+// block agrees on: the nearest palette colour with the palette lock, or the block's
+// average colour without it. The result is at the working size.
+export const snapToPixelGrid = (frame: ImageData, grid: PixelGrid, paletteLock: boolean): ImageData => {
+    const usePalette = paletteLock && grid.palette.length > 0;
+    const nearest = new Map<number, number>();
+    const findNearest = (r: number, g: number, b: number): number => {
+        const key = (r << 16) | (g << 8) | b;
+        let index = nearest.get(key);
+        if (index === undefined) {
+            let best = Infinity;
+            index = 0;
+            grid.palette.forEach(([pr, pg, pb], i) => {
+                const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+                if (distance < best) {
+                    best = distance;
+                    index = i;
+                }
+            });
+            nearest.set(key, index);
+        }
+        return index;
+    };
+
+    const native = new ImageData(grid.width, grid.height);
+    const votes = new Map<number, number>();
+    for (let ny = 0; ny < grid.height; ny++) {
+        const y0 = Math.floor(ny * frame.height / grid.height);
+        const y1 = Math.max(y0 + 1, Math.floor((ny + 1) * frame.height / grid.height));
+        for (let nx = 0; nx < grid.width; nx++) {
+            const x0 = Math.floor(nx * frame.width / grid.width);
+            const x1 = Math.max(x0 + 1, Math.floor((nx + 1) * frame.width / grid.width));
+            votes.clear();
+            let transparent = 0, opaque = 0, r = 0, g = 0, b = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    const o = (y * frame.width + x) * 4;
+                    if (!isOpaque(frame.data, o)) {
+                        transparent++;
+                        continue;
+                    }
+                    opaque++;
+                    if (usePalette) {
+                        const index = findNearest(frame.data[o], frame.data[o + 1], frame.data[o + 2]);
+                        votes.set(index, (votes.get(index) ?? 0) + 1);
+                    } else {
+                        r += frame.data[o];
+                        g += frame.data[o + 1];
+                        b += frame.data[o + 2];
+                    }
+                }
+            }
+            if (transparent >= opaque) continue;
+
+            let color: PaletteColor = [Math.round(r / opaque), Math.round(g / opaque), Math.round(b / opaque)];
+            if (usePalette) {
+                let bestIndex = 0, bestVotes = -1;
+                votes.forEach((count, index) => {
+                    if (count > bestVotes) {
+                        bestVotes = count;
+                        bestIndex = index;
+                    }
+                });
+                color = grid.palette[bestIndex];
+            }
+            native.data.set([...color, 255], (ny * grid.width + nx) * 4);
+        }
+    }
+    return upscaleNearest(native, grid.pixelSize);
+};
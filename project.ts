@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import JSZip from 'jszip';
+import { FrameSlotHistory, FrameVersion } from './history';
+import { Timeline } from './timeline';
+import { LedgerEntry } from './ledger';
+import { RigSettings } from './rig';
+import { ReferenceSheetImage } from './refsheet';
+
+// A project bundle (.animabanana) is a zip holding a manifest.json plus every image
+// of the session, so a run can be reopened and corrected later without regenerating.
+
+export const PROJECT_FILE_EXTENSION = '.animabanana';
+const PROJECT_FORMAT = 'animabanana-project';
+const PROJECT_VERSION = 1;
+
+export interface ProjectState {
+    prompt: string;
+    initialImage: string;
+    initialImageHasTransparency: boolean;
+    framePrompts: Record<string, string>[];
+    generatedFrames: (string | null)[];
+    // Every version of every frame; older bundles don't have it.
+    frameHistory?: (FrameSlotHistory | null)[];
+    // Playback order and per-frame durations; older bundles don't have it.
+    timeline?: Timeline;
+    isCyclic: boolean;
+    fps: number;
+    loop: boolean;
+    numFrames: number;
+    estimatedCost: number;
+    // Every model call made for the project; older bundles don't have it.
+    ledger?: LedgerEntry[];
+    // The parts the plan poses; older bundles don't have it and are biped.
+    rig?: RigSettings;
+    // Labelled views of the character sent with the style lock; older bundles don't have it.
+    referenceSheet?: ReferenceSheetImage[];
+}
+
+interface ImageRef {
+    file: string;
+    mimeType: string;
+}
+
+interface SlotHistoryManifest {
+    versions: (Omit<FrameVersion, 'image'> & { image: ImageRef })[];
+    active: number;
+}
+
+interface ProjectManifest {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+    prompt: string;
+    initialImage: ImageRef & { hasTransparency: boolean };
+    framePrompts: Record<string, string>[];
+    frames: (ImageRef | null)[];
+    history?: (SlotHistoryManifest | null)[];
+    timeline?: Timeline;
+    isCyclic: boolean;
+    fps: number;
+    loop: boolean;
+    numFrames: number;
+    estimatedCost: number;
+    ledger?: LedgerEntry[];
+    rig?: RigSettings;
+    referenceSheet?: (Omit<ReferenceSheetImage, 'image'> & { image: ImageRef })[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+// Helper to store a data URL in the zip and return a reference to it
+const addImage = (zip: JSZip, path: string, dataUrl: string): ImageRef => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/:(.*?);/)?.[1] ?? 'image/png';
+    const file = `${path}.${EXTENSIONS[mimeType] ?? 'png'}`;
+    zip.file(file, data, { base64: true });
+    return { file, mimeType };
+};
+
+// Helper to read an image back from the zip as a data URL
+const readImage = async (zip: JSZip, ref: ImageRef): Promise<string> => {
+    const entry = zip.file(ref.file);
+    if (!entry) throw new Error(`The project is missing the image "${ref.file}".`);
+    return `data:${ref.mimeType};base64,${await entry.async('base64')}`;
+};
+
+export const saveProject = async (state: ProjectState): Promise<Blob> => {
+    const zip = new JSZip();
+    const frames = state.generatedFrames.map((frame, index) => frame ? addImage(zip, `frames/frame_${String(index).padStart(2, '0')}`, frame) : null);
+    // The active version is already stored as the frame itself
+    const history = state.frameHistory?.map((slot, index) => slot ? {
+        active: slot.active,
+        versions: slot.versions.map((version, v) => ({
+            ...version,
+            image: v === slot.active && frames[index]
+                ? frames[index]!
+                : addImage(zip, `history/frame_${String(index).padStart(2, '0')}_v${v}`, version.image),
+        })),
+    } : null);
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        prompt: state.prompt,
+        initialImage: { ...addImage(zip, 'initial', state.initialImage), hasTransparency: state.initialImageHasTransparency },
+        framePrompts: state.framePrompts,
+        frames,
+        history,
+        timeline: state.timeline,
+        isCyclic: state.isCyclic,
+        fps: state.fps,
+        loop: state.loop,
+        numFrames: state.numFrames,
+        estimatedCost: state.estimatedCost,
+        ledger: state.ledger,
+        rig: state.rig,
+        referenceSheet: state.referenceSheet?.map((entry, index) => ({
+            ...entry,
+            image: addImage(zip, `sheet/view_${String(index).padStart(2, '0')}`, entry.image),
+        })),
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+export const loadProject = async (file: Blob): Promise<ProjectState> => {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error('This file is not a valid project bundle.');
+    }
+    const manifestEntry = zip.file('manifest.json');
+    if (!manifestEntry) throw new Error('This file is not a valid project bundle.');
+
+    const manifest = JSON.parse(await manifestEntry.async('string')) as ProjectManifest;
+    if (manifest.format !== PROJECT_FORMAT) throw new Error('This file is not a valid project bundle.');
+    if (manifest.version > PROJECT_VERSION) throw new Error('This project was saved by a newer version of the app.');
+
+    const generatedFrames = await Promise.all(manifest.frames.map(ref => ref ? readImage(zip, ref) : null));
+    const frameHistory = manifest.history
+        ? await Promise.all(manifest.history.map(async slot => slot ? {
+            active: slot.active,
+            versions: await Promise.all(slot.versions.map(async version => ({ ...version, image: await readImage(zip, version.image) }))),
+        } : null))
+        : undefined;
+
+    return {
+        prompt: manifest.prompt ?? '',
+        initialImage: await readImage(zip, manifest.initialImage),
+        initialImageHasTransparency: !!manifest.initialImage.hasTransparency,
+        framePrompts: manifest.framePrompts ?? [],
+        generatedFrames,
+        frameHistory,
+        timeline: manifest.timeline,
+        isCyclic: !!manifest.isCyclic,
+        fps: manifest.fps ?? 5,
+        loop: manifest.loop ?? true,
+        numFrames: manifest.numFrames ?? generatedFrames.length,
+        estimatedCost: manifest.estimatedCost ?? 0,
+        ledger: manifest.ledger,
+        rig: manifest.rig,
+        referenceSheet: manifest.referenceSheet && await Promise.all(manifest.referenceSheet.map(async entry => ({ ...entry, image: await readImage(zip, entry.image) }))),
+    };
+};
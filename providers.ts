@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Modality, Schema } from '@google/genai';
+import { loadImage } from './images';
+
+// The app talks to models through two roles: a "planner" that turns a prompt into a
+// JSON animation plan and an "image editor" that draws a frame from reference images
+// plus instructions. Providers implement both roles, so the pipeline can run against
+// Gemini, an offline mock, or a recording of earlier Gemini responses.
+
+export interface ModelUsage {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+}
+
+export interface PlanRequest {
+    prompt: string;
+    responseSchema: Schema;
+    // Optional images the prompt refers to, e.g. the frames of a motion reference.
+    images?: string[];
+    // Aborts the request when the user cancels.
+    signal?: AbortSignal;
+}
+
+export interface PlanResponse {
+    // The raw JSON text returned by the planner.
+    text: string;
+    usage?: ModelUsage;
+}
+
+export interface ImageEditRequest {
+    // Reference images as data URLs, in the order the prompt refers to them.
+    images: string[];
+    prompt: string;
+    // Aborts the request when the user cancels.
+    signal?: AbortSignal;
+}
+
+export interface ImageEditResponse {
+    // The generated image as a data URL, or null if the model returned none.
+    image: string | null;
+    usage?: ModelUsage;
+}
+
+export interface ModelProvider {
+    plan: (request: PlanRequest) => Promise<PlanResponse>;
+    editImage: (request: ImageEditRequest) => Promise<ImageEditResponse>;
+}
+
+export type ProviderKind = 'gemini' | 'mock' | 'record' | 'replay';
+
+export interface ProviderSettings {
+    kind: ProviderKind;
+    plannerModel: string;
+    imageModel: string;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    kind: 'gemini',
+    plannerModel: 'gemini-2.5-flash',
+    imageModel: 'gemini-2.5-flash-image-preview',
+};
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+    gemini: 'Gemini',
+    mock: 'Offline mock',
+    record: 'Gemini (record responses)',
+    replay: 'Replay a recording',
+};
+
+// Helper to name the model that serves a role, as shown in the cost ledger. The mock and
+// replay providers don't call a paid model.
+export const getModelName = (settings: ProviderSettings, role: 'plan' | 'editImage'): string => {
+    switch (settings.kind) {
+        case 'mock': return 'offline-mock';
+        case 'replay': return 'replay';
+        default: return role === 'plan' ? settings.plannerModel : settings.imageModel;
+    }
+};
+
+// Helper to convert a data URL string to a GoogleGenAI.Part
+const dataUrlToGenerativePart = (dataUrl: string): { inlineData: { data: string; mimeType: string; } } => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/:(.*?);/)?.[1] ?? 'image/png';
+    return {
+        inlineData: { data, mimeType }
+    };
+};
+
+// 32-bit FNV-1a hash, used to key recordings and seed the mock.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): ModelProvider => {
+    let client: GoogleGenAI | null = null;
+    // Created lazily so the mock and replay providers work without an API key.
+    const getClient = () => client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    return {
+        plan: async ({ prompt, responseSchema, images, signal }) => {
+            const response = await getClient().models.generateContent({
+                model: settings.plannerModel,
+                contents: images?.length
+                    ? { parts: [...images.map(dataUrlToGenerativePart), { text: prompt }] }
+                    : prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema,
+                    abortSignal: signal,
+                },
+            });
+            return { text: response.text ?? '', usage: response.usageMetadata };
+        },
+        editImage: async ({ images, prompt, signal }) => {
+            const response = await getClient().models.generateContent({
+                model: settings.imageModel,
+                contents: {
+                    parts: [...images.map(dataUrlToGenerativePart), { text: prompt }],
+                },
+                config: { responseModalities: [Modality.IMAGE, Modality.TEXT], abortSignal: signal },
+            });
+            const imagePart = response.candidates?.[0]?.content?.parts?.find(p => 'inlineData' in p);
+            const image = imagePart?.inlineData?.data
+                ? `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`
+                : null;
+            return { image, usage: response.usageMetadata };
+        },
+    };
+};
+
+// Helper to fake token usage from the prompt length, roughly 4 characters per token
+const estimateUsage = (prompt: string, outputTokens: number): ModelUsage => ({
+    promptTokenCount: Math.ceil(prompt.length / 4),
+    candidatesTokenCount: outputTokens,
+});
+
+// A deterministic, offline provider. Plans describe each frame by its position in the
+// animation, and images are the style-lock image nudged by an amount derived from the prompt.
+export const createMockProvider = (): ModelProvider => ({
+    plan: async ({ prompt, responseSchema, signal }) => {
+        signal?.throwIfAborted();
+        const count = Number(responseSchema.minItems ?? 1);
+        const keys = Object.keys(responseSchema.items?.properties ?? { notes: {} });
+        const plan = Array.from({ length: count }, (_, frame) => Object.fromEntries(keys.map(key => [
+            key,
+            key === 'notes'
+                ? `Mock frame ${frame + 1} of ${count}.`
+                : `${key.replace(/_/g, ' ')} at step ${frame + 1} of ${count}.`,
+        ])));
+        const text = JSON.stringify(plan);
+        return { text, usage: estimateUsage(prompt, Math.ceil(text.length / 4)) };
+    },
+    editImage: async ({ images, prompt, signal }) => {
+        signal?.throwIfAborted();
+        if (images.length === 0) return { image: null };
+        const seed = hashString(prompt);
+        const img = await loadImage(images[0]);
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return { image: null };
+
+        const angle = ((seed % 31) - 15) * Math.PI / 180;
+        const offsetY = ((seed >>> 5) % 21) - 10;
+        ctx.translate(canvas.width / 2, canvas.height / 2 + offsetY);
+        ctx.rotate(angle);
+        ctx.drawImage(img, -canvas.width / 2, -canvas.height / 2);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = `hsl(${seed % 360}, 80%, 60%)`;
+        ctx.font = `${Math.max(10, Math.round(canvas.width / 24))}px monospace`;
+        ctx.fillText(`mock ${seed.toString(16).padStart(8, '0')}`, 8, canvas.height - 8);
+
+        return { image: canvas.toDataURL('image/png'), usage: estimateUsage(prompt, 0) };
+    },
+});
+
+export interface RecordedCall {
+    role: 'plan' | 'editImage';
+    key: string;
+    response: PlanResponse | ImageEditResponse;
+}
+
+export interface Recording {
+    format: 'animabanana-recording';
+    version: 1;
+    calls: RecordedCall[];
+}
+
+// Images are only part of the key when there are some, so older recordings still match.
+const planKey = ({ prompt, images }: PlanRequest) =>
+    hashString(images?.length ? `plan\n${prompt}\n${images.join('\n')}` : `plan\n${prompt}`).toString(16);
+const imageKey = ({ images, prompt }: ImageEditRequest) => hashString(`editImage\n${prompt}\n${images.join('\n')}`).toString(16);
+
+// Wraps another provider and records every response so it can be saved and replayed later.
+// Responses are appended to `calls`, so a recording can carry on across providers, e.g.
+// when the model settings change mid-session.
+export const createRecordingProvider = (inner: ModelProvider, calls: RecordedCall[] = []): ModelProvider & { getRecording: () => Recording } => ({
+    plan: async (request) => {
+        const response = await inner.plan(request);
+        calls.push({ role: 'plan', key: planKey(request), response });
+        return response;
+    },
+    editImage: async (request) => {
+        const response = await inner.editImage(request);
+        calls.push({ role: 'editImage', key: imageKey(request), response });
+        return response;
+    },
+    getRecording: () => ({ format: 'animabanana-recording', version: 1, calls: [...calls] }),
+});
+
+export const parseRecording = (json: string): Recording => {
+    const recording = JSON.parse(json) as Recording;
+    if (recording?.format !== 'animabanana-recording' || !Array.isArray(recording.calls)) {
+        throw new Error('This file is not a valid recording.');
+    }
+    return recording;
+};
+
+// Plays back a recording. Calls are matched by their request first; if a request was not
+// recorded exactly, the next unused response for the same role is returned instead.
+export const createReplayProvider = (recording: Recording): ModelProvider => {
+    const used = new Set<number>();
+    const take = (role: RecordedCall['role'], key: string) => {
+        let index = recording.calls.findIndex((call, i) => !used.has(i) && call.role === role && call.key === key);
+        if (index === -1) index = recording.calls.findIndex((call, i) => !used.has(i) && call.role === role);
+        if (index === -1) throw new Error('The recording has no more responses for this request.');
+        used.add(index);
+        return recording.calls[index].response;
+    };
+    return {
+        plan: async (request) => {
+            request.signal?.throwIfAborted();
+            return take('plan', planKey(request)) as PlanResponse;
+        },
+        editImage: async (request) => {
+            request.signal?.throwIfAborted();
+            return take('editImage', imageKey(request)) as ImageEditResponse;
+        },
+    };
+};
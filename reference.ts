@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { decodeGif } from './gif';
+import { loadImage, fileToDataUrl, imageDataToDataUrl } from './images';
+
+// Motion references: an uploaded GIF, video or image sequence showing the movement to
+// animate. The reference is sampled down to the animation's frame count, and the planner
+// describes each frame's pose from the matching reference frame.
+
+// Reference frames are only read by the planner and shown for comparison, so they are kept small.
+const MAX_REFERENCE_SIZE = 256;
+// Give up on a video that does not seek within this time.
+const SEEK_TIMEOUT_MS = 10_000;
+
+// Helper to pick `count` evenly spaced positions from 0 to 1, keeping the first and last
+const samplePositions = (count: number): number[] =>
+    Array.from({ length: count }, (_, i) => count === 1 ? 0 : i / (count - 1));
+
+// Helper to draw a picture into a PNG data URL no larger than the reference size
+const drawReferenceFrame = (source: CanvasImageSource, width: number, height: number): string => {
+    const scale = Math.min(1, MAX_REFERENCE_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas to read the reference.');
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+// A GIF is sampled by time rather than by frame, so frames held longer count for more.
+const sampleGif = async (file: File, count: number): Promise<string[]> => {
+    const { frames } = decodeGif(new Uint8Array(await file.arrayBuffer()));
+    const starts: number[] = [];
+    let duration = 0;
+    for (const frame of frames) {
+        starts.push(duration);
+        duration += frame.delayMs;
+    }
+    const lastStart = starts[starts.length - 1];
+    const picked = samplePositions(count).map(position => {
+        const time = position * lastStart;
+        let index = 0;
+        while (index + 1 < starts.length && starts[index + 1] <= time) index++;
+        return frames[index].image;
+    });
+    return Promise.all(picked.map(async image => {
+        const img = await loadImage(imageDataToDataUrl(image));
+        return drawReferenceFrame(img, image.width, image.height);
+    }));
+};
+
+const sampleVideo = async (file: File, count: number): Promise<string[]> => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    const waitFor = (event: string) => new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('The video could not be read.')), SEEK_TIMEOUT_MS);
+        video.addEventListener(event, () => { clearTimeout(timer); resolve(); }, { once: true });
+        video.addEventListener('error', () => { clearTimeout(timer); reject(new Error('The video format is not supported by this browser.')); }, { once: true });
+    });
+    try {
+        const loaded = waitFor('loadeddata');
+        video.src = url;
+        await loaded;
+        if (!Number.isFinite(video.duration)) throw new Error('The video has no known length.');
+        // Stay just short of the end, where some browsers have no frame to show.
+        const end = Math.max(0, video.duration - 0.05);
+        const frames: string[] = [];
+        for (const position of samplePositions(count)) {
+            const seeked = waitFor('seeked');
+            video.currentTime = position * end;
+            await seeked;
+            frames.push(drawReferenceFrame(video, video.videoWidth, video.videoHeight));
+        }
+        return frames;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// Image sequences are ordered by file name, so "frame2" comes before "frame10".
+const sampleSequence = async (files: File[], count: number): Promise<string[]> => {
+    const sorted = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    return Promise.all(samplePositions(count).map(async position => {
+        const img = await loadImage(await fileToDataUrl(sorted[Math.round(position * (sorted.length - 1))]));
+        return drawReferenceFrame(img, img.naturalWidth, img.naturalHeight);
+    }));
+};
+
+// Loads a motion reference from uploaded files and samples it to `count` frames. One
+// GIF or video file, or several still images forming a sequence, are accepted.
+export const loadReference = async (files: File[], count: number): Promise<string[]> => {
+    if (files.length === 0 || count < 1) return [];
+    if (files.length > 1) {
+        if (files.some(file => !file.type.startsWith('image/'))) {
+            throw new Error('An image sequence can only contain image files.');
+        }
+        return sampleSequence(files, count);
+    }
+    const [file] = files;
+    if (file.type === 'image/gif') return sampleGif(file, count);
+    if (file.type.startsWith('video/')) return sampleVideo(file, count);
+    throw new Error('Upload a GIF, a video, or several images forming a sequence.');
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Character reference sheets: extra labelled views of the character (side, back, detail
+// close-ups) sent next to the style-lock image, so the model doesn't have to invent the
+// parts of the character the original image doesn't show when a motion turns it.
+
+export type ReferenceView = 'front' | 'three-quarter' | 'side' | 'back' | 'detail' | 'other';
+
+export const REFERENCE_VIEW_LABELS: Record<ReferenceView, string> = {
+    front: 'Front view',
+    'three-quarter': 'Three-quarter view',
+    side: 'Side view',
+    back: 'Back view',
+    detail: 'Detail close-up',
+    other: 'Other',
+};
+
+export interface ReferenceSheetImage {
+    image: string;
+    view: ReferenceView;
+    // What the image shows, e.g. "left side" or "the sword's hilt".
+    note: string;
+}
+
+// Helper to name a sheet image in a prompt, e.g. "Side view (left side)"
+const describeImage = ({ view, note }: ReferenceSheetImage): string =>
+    note.trim() ? `${REFERENCE_VIEW_LABELS[view]} (${note.trim()})` : REFERENCE_VIEW_LABELS[view];
+
+// Helper to guess the view from an uploaded file's name, e.g. "knight_back.png"
+export const guessReferenceView = (fileName: string): ReferenceView => {
+    const name = fileName.toLowerCase();
+    if (/three[-_ ]?quarter|3[-_ ]?4/.test(name)) return 'three-quarter';
+    if (/back|rear|behind/.test(name)) return 'back';
+    if (/side|profile|left|right/.test(name)) return 'side';
+    if (/front/.test(name)) return 'front';
+    if (/detail|close/.test(name)) return 'detail';
+    return 'other';
+};
+
+export const getSheetImages = (sheet: ReferenceSheetImage[]): string[] => sheet.map(entry => entry.image);
+
+// Helper to list the sheet images in a prompt's reference list, numbered from `firstNumber`
+// to match their position among the images sent with it. Empty for an empty sheet.
+export const describeReferenceSheet = (sheet: ReferenceSheetImage[], firstNumber: number): string =>
+    sheet.map((entry, i) =>
+        `${firstNumber + i}.  **Reference Sheet - ${describeImage(entry)}:** Another view of the same character, part of the style lock. Use it for any side, back or detail of the character the "Original Image" does not show clearly.`,
+    ).join('\n');
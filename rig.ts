@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Rig schemas: the named parts a character is posed by. The rig decides which keys the
+// planner writes for every frame, which parts count as changed between two frames, and
+// how the parts are described to the image model.
+
+export type RigKind = 'biped' | 'quadruped' | 'winged' | 'face' | 'prop' | 'custom';
+
+export const RIG_LABELS: Record<RigKind, string> = {
+    biped: 'Biped',
+    quadruped: 'Quadruped',
+    winged: 'Winged',
+    face: 'Face / bust',
+    prop: 'Prop / object',
+    custom: 'Custom parts',
+};
+
+export interface RigPart {
+    // Key used in the plan, e.g. "left_arm".
+    key: string;
+    // Guidance given to the planner for this part.
+    description: string;
+}
+
+export interface RigSettings {
+    kind: RigKind;
+    // The part list used by the 'custom' rig.
+    customParts: RigPart[];
+}
+
+// Every frame of a plan also has these keys, whatever the rig.
+export const NOTES_KEY = 'notes';
+const NOTES_DESCRIPTION = 'A brief summary of the action in this frame.';
+
+export const RIG_PRESETS: Record<Exclude<RigKind, 'custom'>, RigPart[]> = {
+    biped: [
+        { key: 'head', description: 'Position and orientation of the head.' },
+        { key: 'torso', description: 'Position and orientation of the torso.' },
+        { key: 'left_arm', description: 'Position, rotation, and gesture of the left arm and hand.' },
+        { key: 'right_arm', description: 'Position, rotation, and gesture of the right arm and hand.' },
+        { key: 'left_leg', description: 'Position and orientation of the left leg and foot.' },
+        { key: 'right_leg', description: 'Position and orientation of the right leg and foot.' },
+        { key: 'facial_expression', description: "The character's facial expression, including eyes and mouth." },
+    ],
+    quadruped: [
+        { key: 'head', description: 'Position and orientation of the head, including ears and jaw.' },
+        { key: 'neck', description: 'Bend and orientation of the neck.' },
+        { key: 'torso', description: 'Position, arch, and orientation of the body and spine.' },
+        { key: 'front_left_leg', description: 'Position and bend of the front left leg and paw or hoof.' },
+        { key: 'front_right_leg', description: 'Position and bend of the front right leg and paw or hoof.' },
+        { key: 'back_left_leg', description: 'Position and bend of the back left leg and paw or hoof.' },
+        { key: 'back_right_leg', description: 'Position and bend of the back right leg and paw or hoof.' },
+        { key: 'tail', description: 'Position and curve of the tail.' },
+        { key: 'facial_expression', description: "The animal's expression, including eyes and mouth." },
+    ],
+    winged: [
+        { key: 'head', description: 'Position and orientation of the head and beak or snout.' },
+        { key: 'body', description: 'Position, tilt, and orientation of the body.' },
+        { key: 'left_wing', description: 'Spread, angle, and feather or membrane shape of the left wing.' },
+        { key: 'right_wing', description: 'Spread, angle, and feather or membrane shape of the right wing.' },
+        { key: 'legs', description: 'Position of the legs and feet or talons.' },
+        { key: 'tail', description: 'Position and spread of the tail.' },
+        { key: 'facial_expression', description: "The creature's expression, including eyes." },
+    ],
+    face: [
+        { key: 'head', description: 'Tilt, turn, and position of the head.' },
+        { key: 'eyes', description: 'Gaze direction and openness of the eyes, including blinks.' },
+        { key: 'eyebrows', description: 'Shape and position of the eyebrows.' },
+        { key: 'mouth', description: 'Shape of the mouth and lips, including speech shapes.' },
+        { key: 'hair', description: 'Movement of the hair.' },
+        { key: 'shoulders', description: 'Position of the shoulders and neck.' },
+    ],
+    prop: [
+        { key: 'position', description: 'Position of the object in the frame.' },
+        { key: 'rotation', description: 'Rotation and facing of the object.' },
+        { key: 'deformation', description: 'Squash, stretch, or bending of the object.' },
+        { key: 'moving_parts', description: 'State of any moving parts, such as wheels, doors, or lids.' },
+        { key: 'effects', description: 'Secondary effects such as smoke, sparks, or motion lines.' },
+    ],
+};
+
+export const DEFAULT_RIG_SETTINGS: RigSettings = {
+    kind: 'biped',
+    customParts: [{ key: 'body', description: 'Position and shape of the body.' }],
+};
+
+export const getRigParts = (rig: RigSettings): RigPart[] =>
+    rig.kind === 'custom' ? rig.customParts : RIG_PRESETS[rig.kind];
+
+// Helper to list the keys of every frame in a plan, with the guidance for each
+export const getPoseProperties = (rig: RigSettings): Record<string, string> => ({
+    [NOTES_KEY]: NOTES_DESCRIPTION,
+    ...Object.fromEntries(getRigParts(rig).map(part => [part.key, part.description])),
+});
+
+// Helper to describe the rig to a model, one part per line
+export const describeRig = (rig: RigSettings): string =>
+    getRigParts(rig).map(part => `  - ${part.key}: ${part.description}`).join('\n');
+
+const toPartKey = (name: string): string => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+// Parses a custom part list written one part per line, as "name: description".
+// Duplicate names and the reserved notes key are dropped.
+export const parseCustomParts = (text: string): RigPart[] => {
+    const parts: RigPart[] = [];
+    text.split('\n').forEach(line => {
+        const separator = line.indexOf(':');
+        const key = toPartKey(separator === -1 ? line : line.slice(0, separator));
+        if (!key || key === NOTES_KEY || parts.some(part => part.key === key)) return;
+        const description = separator === -1 ? '' : line.slice(separator + 1).trim();
+        parts.push({ key, description: description || `Position and shape of the ${key.replace(/_/g, ' ')}.` });
+    });
+    return parts;
+};
+
+export const formatCustomParts = (parts: RigPart[]): string =>
+    parts.map(part => `${part.key}: ${part.description}`).join('\n');
+
+// Helper to describe a pose `t` (0-1) of the way from `poseA` to `poseB`, for a frame
+// inserted between two existing ones. Parts that don't change keep their description.
+export const interpolatePose = (poseA: Record<string, string>, poseB: Record<string, string>, t: number, notes: string): Record<string, string> => {
+    const keys = [...new Set([...Object.keys(poseA), ...Object.keys(poseB)])].filter(key => key !== NOTES_KEY);
+    const percent = Math.round(t * 100);
+    return {
+        [NOTES_KEY]: notes,
+        ...Object.fromEntries(keys.map(key => [key, poseA[key] === poseB[key]
+            ? poseA[key] ?? ''
+            : `${percent}% of the way from "${poseA[key] ?? ''}" to "${poseB[key] ?? ''}"`])),
+    };
+};
+
+// Helper to compare two poses part by part. Only the rig's parts are compared, so
+// "changed parts" always names parts the character has; a plan written for another rig
+// falls back to comparing every key it has.
+export const diffPoses = (poseA: Record<string, string>, poseB: Record<string, string>, rig: RigSettings): { changedParts: string[]; unchangedParts: string[] } => {
+    const changedParts: string[] = [];
+    const unchangedParts: string[] = [];
+    if (!poseA || !poseB) return { changedParts, unchangedParts };
+
+    const rigKeys = getRigParts(rig).map(part => part.key).filter(key => key in poseA || key in poseB);
+    const keys = rigKeys.length > 0
+        ? rigKeys
+        : [...new Set([...Object.keys(poseA), ...Object.keys(poseB)])].filter(key => key !== NOTES_KEY);
+
+    for (const key of keys) {
+        if (poseA[key] !== poseB[key]) {
+            changedParts.push(key);
+        } else {
+            unchangedParts.push(key);
+        }
+    }
+    return { changedParts, unchangedParts };
+};
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Packs animation frames into a single sprite sheet and describes it with a
+// TexturePacker-style JSON atlas (the "JSON Hash" and "JSON Array" formats that
+// Phaser, PixiJS and most engines can load directly).
+
+export type SpriteSheetLayout = 'grid' | 'packed';
+export type AtlasFormat = 'hash' | 'array';
+
+export interface SpriteSheetOptions {
+    layout: SpriteSheetLayout;
+    // Transparent gap between frames, in pixels.
+    padding: number;
+    // Display time of each frame, in milliseconds.
+    frameDurationsMs: number[];
+    // Normalized anchor point of each frame, (0.5, 0.5) is the centre.
+    pivot: { x: number; y: number };
+    // Name of each frame in the atlas; defaults to the slot file name of its index.
+    fileNames?: string[];
+    // Frames per row of the grid layout; defaults to a roughly square grid.
+    columns?: number;
+}
+
+interface Rect { x: number; y: number; w: number; h: number; }
+
+export interface AtlasFrame {
+    filename: string;
+    frame: Rect;
+    rotated: boolean;
+    trimmed: boolean;
+    spriteSourceSize: Rect;
+    sourceSize: { w: number; h: number };
+    pivot: { x: number; y: number };
+    duration: number;
+}
+
+export interface SpriteSheet {
+    canvas: HTMLCanvasElement;
+    frames: AtlasFrame[];
+}
+
+// Helper to name a frame slot's file in the zip export. Atlases name each packed slot the
+// same way, and list the playback order, repeats included, in their animations.
+export const getFrameFileName = (index: number): string => `frame_${String(index).padStart(2, '0')}.png`;
+
+// Helper to find the bounding box of all non-transparent pixels. Fully transparent
+// frames keep a single pixel so every frame still has a valid rect.
+const getOpaqueBounds = (image: ImageData): Rect => {
+    const { width, height, data } = image;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return { x: 0, y: 0, w: 1, h: 1 };
+    return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+// Simple shelf packer: tallest frames first, rows no wider than a roughly square sheet.
+const packShelves = (sizes: { w: number; h: number }[], padding: number): { positions: { x: number; y: number }[]; width: number; height: number } => {
+    const totalArea = sizes.reduce((sum, { w, h }) => sum + (w + padding) * (h + padding), 0);
+    const widest = Math.max(...sizes.map(({ w }) => w));
+    const maxRowWidth = Math.max(widest, Math.ceil(Math.sqrt(totalArea)));
+
+    const order = sizes.map((_, i) => i).sort((a, b) => sizes[b].h - sizes[a].h);
+    const positions = new Array<{ x: number; y: number }>(sizes.length);
+    let x = 0, y = 0, rowHeight = 0, width = 0;
+
+    order.forEach(i => {
+        const { w, h } = sizes[i];
+        if (x > 0 && x + w > maxRowWidth) {
+            x = 0;
+            y += rowHeight + padding;
+            rowHeight = 0;
+        }
+        positions[i] = { x, y };
+        x += w + padding;
+        rowHeight = Math.max(rowHeight, h);
+        width = Math.max(width, x - padding);
+    });
+
+    return { positions, width, height: y + rowHeight };
+};
+
+export const buildSpriteSheet = (images: ImageData[], options: SpriteSheetOptions): SpriteSheet => {
+    if (images.length === 0) throw new Error('Cannot build a sprite sheet without frames.');
+    const { padding, pivot } = options;
+    const trim = options.layout === 'packed';
+
+    const sourceRects = images.map(image => trim ? getOpaqueBounds(image) : { x: 0, y: 0, w: image.width, h: image.height });
+
+    let positions: { x: number; y: number }[];
+    let sheetWidth: number;
+    let sheetHeight: number;
+    if (trim) {
+        ({ positions, width: sheetWidth, height: sheetHeight } = packShelves(sourceRects, padding));
+    } else {
+        const cellW = Math.max(...images.map(image => image.width));
+        const cellH = Math.max(...images.map(image => image.height));
+        const columns = Math.min(images.length, options.columns ?? Math.ceil(Math.sqrt(images.length)));
+        const rows = Math.ceil(images.length / columns);
+        positions = images.map((_, i) => ({ x: (i % columns) * (cellW + padding), y: Math.floor(i / columns) * (cellH + padding) }));
+        sheetWidth = columns * cellW + (columns - 1) * padding;
+        sheetHeight = rows * cellH + (rows - 1) * padding;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sheetWidth;
+    canvas.height = sheetHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas for the sprite sheet.');
+
+    const frames = images.map((image, i): AtlasFrame => {
+        const source = sourceRects[i];
+        const { x, y } = positions[i];
+        ctx.putImageData(image, x - source.x, y - source.y, source.x, source.y, source.w, source.h);
+        return {
+            filename: options.fileNames?.[i] ?? getFrameFileName(i),
+            frame: { x, y, w: source.w, h: source.h },
+            rotated: false,
+            trimmed: source.w !== image.width || source.h !== image.height,
+            spriteSourceSize: source,
+            sourceSize: { w: image.width, h: image.height },
+            pivot,
+            duration: Math.round(options.frameDurationsMs[i] ?? 0),
+        };
+    });
+
+    return { canvas, frames };
+};
+
+// Serializes the sprite sheet as a TexturePacker/Phaser JSON atlas. `animations` maps each
+// animation name to its frame names in playback order; a single name makes one animation
+// of every frame.
+export const buildAtlasJson = (sheet: SpriteSheet, format: AtlasFormat, imageName: string, animations: string | Record<string, string[]>): object => {
+    const meta = {
+        app: 'AnimaBanana',
+        version: '1.0',
+        image: imageName,
+        format: 'RGBA8888',
+        size: { w: sheet.canvas.width, h: sheet.canvas.height },
+        scale: '1',
+    };
+    const animationMap = typeof animations === 'string' ? { [animations]: sheet.frames.map(frame => frame.filename) } : animations;
+
+    if (format === 'array') {
+        return { frames: sheet.frames, animations: animationMap, meta };
+    }
+    const frames: Record<string, Omit<AtlasFrame, 'filename'>> = {};
+    sheet.frames.forEach(({ filename, ...frame }) => {
+        frames[filename] = frame;
+    });
+    return { frames, animations: animationMap, meta };
+};
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ProjectState } from './project';
+
+// Browser-local persistence in IndexedDB. Frames are large data URLs, which quickly
+// outgrow localStorage, so everything that survives a page reload lives here: the
+// checkpoint of an interrupted run and the gallery of saved sessions. Each session is
+// stored twice: in full, and as a small summary with a thumbnail, so the gallery can be
+// listed without loading every frame of every session.
+
+const DB_NAME = 'animabanana';
+const DB_VERSION = 2;
+const CHECKPOINT_STORE = 'checkpoints';
+const CHECKPOINT_KEY = 'current';
+const SESSION_STORE = 'sessions';
+const SESSION_SUMMARY_STORE = 'session-summaries';
+
+// Identifies a session in the gallery.
+export interface SessionRef {
+    id: string;
+    createdAt: string;
+}
+
+// A snapshot of an unfinished generation run, written after every finished frame.
+export interface Checkpoint extends ProjectState {
+    frameErrors: (string | null)[];
+    savedAt: string;
+    // The gallery session the run belongs to; older checkpoints don't have it.
+    session?: SessionRef | null;
+}
+
+// A generation session in the gallery: everything needed to reopen it.
+export interface Session extends ProjectState, SessionRef {
+    updatedAt: string;
+}
+
+export interface SessionSummary {
+    id: string;
+    prompt: string;
+    // A small PNG of the first frame, or of the input image before any frame exists.
+    thumbnail: string | null;
+    createdAt: string;
+    updatedAt: string;
+    frameCount: number;
+    finishedFrames: number;
+    cost: number;
+    // Approximate size of the stored session.
+    sizeBytes: number;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) db.createObjectStore(CHECKPOINT_STORE);
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SESSION_SUMMARY_STORE)) db.createObjectStore(SESSION_SUMMARY_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Helper to run a single request in its own transaction
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = run(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const saveCheckpoint = async (checkpoint: Checkpoint): Promise<void> => {
+    await withStore(CHECKPOINT_STORE, 'readwrite', store => store.put(checkpoint, CHECKPOINT_KEY));
+};
+
+export const loadCheckpoint = async (): Promise<Checkpoint | null> => {
+    const checkpoint = await withStore<Checkpoint | undefined>(CHECKPOINT_STORE, 'readonly', store => store.get(CHECKPOINT_KEY));
+    return checkpoint ?? null;
+};
+
+export const clearCheckpoint = async (): Promise<void> => {
+    await withStore(CHECKPOINT_STORE, 'readwrite', store => store.delete(CHECKPOINT_KEY));
+};
+
+// Helper to write to several stores in one transaction, so a session and its summary never disagree
+const withStores = async (storeNames: string[], run: (transaction: IDBTransaction) => void): Promise<void> => {
+    const db = await openDatabase();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(storeNames, 'readwrite');
+            run(transaction);
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const createSessionId = (): string => crypto.randomUUID();
+
+export const saveSession = async (session: Session, thumbnail: string | null): Promise<SessionSummary> => {
+    const summary: SessionSummary = {
+        id: session.id,
+        prompt: session.prompt,
+        thumbnail,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        frameCount: session.generatedFrames.length,
+        finishedFrames: session.generatedFrames.filter(Boolean).length,
+        cost: session.estimatedCost,
+        // Data URLs are ASCII, so the JSON length is close to the stored size
+        sizeBytes: JSON.stringify(session).length,
+    };
+    await withStores([SESSION_STORE, SESSION_SUMMARY_STORE], transaction => {
+        transaction.objectStore(SESSION_STORE).put(session);
+        transaction.objectStore(SESSION_SUMMARY_STORE).put(summary);
+    });
+    return summary;
+};
+
+// Lists the gallery, most recently changed first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const summaries = await withStore<SessionSummary[]>(SESSION_SUMMARY_STORE, 'readonly', store => store.getAll());
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadSession = async (id: string): Promise<Session | null> => {
+    const session = await withStore<Session | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+    return session ?? null;
+};
+
+export const deleteSessions = async (ids: string[]): Promise<void> => {
+    await withStores([SESSION_STORE, SESSION_SUMMARY_STORE], transaction => {
+        ids.forEach(id => {
+            transaction.objectStore(SESSION_STORE).delete(id);
+            transaction.objectStore(SESSION_SUMMARY_STORE).delete(id);
+        });
+    });
+};
+
+// How much the browser lets this origin store and how much is used, when it says
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage === undefined || quota === undefined ? null : { usage, quota };
+};
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The timeline decides how the generated frames are played back: which frame slot each
+// step shows, for how long, and in which direction. The same timeline drives the preview
+// and every export, so what you see is what you download.
+
+export type PlaybackMode = 'forward' | 'reverse' | 'pingpong' | 'once';
+
+export const PLAYBACK_MODE_LABELS: Record<PlaybackMode, string> = {
+    forward: 'Forward loop',
+    reverse: 'Reverse loop',
+    pingpong: 'Ping-pong',
+    once: 'Play once',
+};
+
+export interface TimelineEntry {
+    // Index of the frame slot this step shows; a slot may appear several times.
+    frame: number;
+    // Display time in milliseconds; when unset the step follows the global FPS.
+    durationMs?: number;
+}
+
+export interface Timeline {
+    entries: TimelineEntry[];
+    mode: PlaybackMode;
+}
+
+// A single resolved step of playback.
+export interface PlaybackStep {
+    frame: number;
+    durationMs: number;
+}
+
+export const MIN_FRAME_DURATION_MS = 10;
+
+export const createTimeline = (frameCount: number): Timeline => ({
+    entries: Array.from({ length: frameCount }, (_, frame) => ({ frame })),
+    mode: 'forward',
+});
+
+// Helper to fall back to the default timeline when the frames no longer match it,
+// e.g. after a new plan with a different frame count
+export const normalizeTimeline = (timeline: Timeline, frameCount: number): Timeline =>
+    timeline.entries.length === 0 || timeline.entries.some(entry => entry.frame >= frameCount)
+        ? { ...createTimeline(frameCount), mode: timeline.mode }
+        : timeline;
+
+export const getEntryDuration = (entry: TimelineEntry, fps: number): number => entry.durationMs ?? 1000 / fps;
+
+export const isLoopingMode = (mode: PlaybackMode): boolean => mode !== 'once';
+
+// Helper to expand the timeline into the steps of one playback cycle. Ping-pong doesn't
+// repeat the turning frames, so a loop of it has no visible stutter at either end.
+export const getPlaybackSequence = (timeline: Timeline, fps: number): PlaybackStep[] => {
+    const steps = timeline.entries.map(entry => ({ frame: entry.frame, durationMs: getEntryDuration(entry, fps) }));
+    switch (timeline.mode) {
+        case 'reverse': return [...steps].reverse();
+        case 'pingpong': return [...steps, ...steps.slice(1, -1).reverse()];
+        default: return steps;
+    }
+};
+
+// Helper to list the slots a playback sequence shows, each once and in slot order, for
+// exports that store every image once. A slot shown by several steps keeps the duration
+// of its first step.
+export const getSequenceSlots = (sequence: PlaybackStep[]): PlaybackStep[] => {
+    const slots = new Map<number, PlaybackStep>();
+    sequence.forEach(step => {
+        if (!slots.has(step.frame)) slots.set(step.frame, step);
+    });
+    return [...slots.values()].sort((a, b) => a.frame - b.frame);
+};
+
+export const moveEntry = (timeline: Timeline, from: number, to: number): Timeline => {
+    if (to < 0 || to >= timeline.entries.length) return timeline;
+    const entries = [...timeline.entries];
+    const [entry] = entries.splice(from, 1);
+    entries.splice(to, 0, entry);
+    return { ...timeline, entries };
+};
+
+export const duplicateEntry = (timeline: Timeline, index: number): Timeline => {
+    const entries = [...timeline.entries];
+    entries.splice(index + 1, 0, { ...entries[index] });
+    return { ...timeline, entries };
+};
+
+export const removeEntry = (timeline: Timeline, index: number): Timeline => {
+    if (timeline.entries.length <= 1) return timeline;
+    return { ...timeline, entries: timeline.entries.filter((_, i) => i !== index) };
+};
+
+export const setEntryDuration = (timeline: Timeline, index: number, durationMs: number | undefined): Timeline => ({
+    ...timeline,
+    entries: timeline.entries.map((entry, i) => i === index
+        ? { frame: entry.frame, ...(durationMs === undefined ? {} : { durationMs: Math.max(MIN_FRAME_DURATION_MS, Math.round(durationMs)) }) }
+        : entry),
+});
+
+// Helper to make room for `count` new slots after slot `after`. Later slots move up, and
+// each step that shows `after` is followed by steps for the new slots, with the same duration.
+export const insertSlots = (timeline: Timeline, after: number, count: number): Timeline => ({
+    ...timeline,
+    entries: timeline.entries.flatMap(entry => {
+        if (entry.frame > after) return [{ ...entry, frame: entry.frame + count }];
+        if (entry.frame < after) return [entry];
+        return [entry, ...Array.from({ length: count }, (_, i) => ({ ...entry, frame: after + 1 + i }))];
+    }),
+});
+
+// The timing manifest written next to the frames in the zip export.
+export const buildTimingManifest = (timeline: Timeline, fps: number, loop: boolean, getFileName: (frame: number) => string): object => {
+    const sequence = getPlaybackSequence(timeline, fps);
+    return {
+        fps,
+        mode: timeline.mode,
+        loop: loop && isLoopingMode(timeline.mode),
+        totalDurationMs: Math.round(sequence.reduce((sum, step) => sum + step.durationMs, 0)),
+        sequence: sequence.map(step => ({ file: getFileName(step.frame), frame: step.frame, durationMs: Math.round(step.durationMs) })),
+    };
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Animated WebP muxer. Each frame is encoded as a still WebP by the browser's canvas
+// encoder (which keeps the alpha channel), and the resulting bitstreams are wrapped
+// into ANMF chunks of a single animated WebP container.
+
+export interface WebpEncodeOptions {
+    // Display time of each frame in milliseconds.
+    delaysMs: number[];
+    // Loop forever when true, play once when false.
+    loop: boolean;
+    // Encoder quality between 0 and 1.
+    quality: number;
+}
+
+// Chunks that carry the actual image data of a still WebP.
+const FRAME_DATA_CHUNKS = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+const fourCC = (bytes: Uint8Array, offset: number): string => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const uint24 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+const uint32 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+// Helper to build a RIFF chunk, padded to an even length
+const riffChunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+    const padded = data.length + (data.length & 1);
+    const out = new Uint8Array(8 + padded);
+    for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+    out.set(uint32(data.length), 4);
+    out.set(data, 8);
+    return out;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+// Helper to pull the ALPH/VP8/VP8L chunks (with their headers) out of a still WebP file
+const extractFrameData = (file: Uint8Array): Uint8Array => {
+    if (fourCC(file, 0) !== 'RIFF' || fourCC(file, 8) !== 'WEBP') {
+        throw new Error('The browser returned an invalid WebP image.');
+    }
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    const parts: Uint8Array[] = [];
+    let offset = 12;
+    while (offset + 8 <= file.length) {
+        const type = fourCC(file, offset);
+        const size = view.getUint32(offset + 4, true);
+        const end = offset + 8 + size + (size & 1);
+        if (FRAME_DATA_CHUNKS.has(type)) parts.push(file.subarray(offset, end));
+        offset = end;
+    }
+    if (parts.length === 0) throw new Error('The browser returned a WebP image without image data.');
+    return concat(parts);
+};
+
+const encodeStillWebp = async (frame: ImageData, quality: number): Promise<Uint8Array> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas to encode WebP.');
+    ctx.putImageData(frame, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', quality));
+    // Browsers without a WebP encoder silently fall back to PNG.
+    if (!blob || blob.type !== 'image/webp') {
+        throw new Error('This browser cannot encode WebP images.');
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+// Encodes equally sized frames into an animated WebP.
+export const encodeAnimatedWebp = async (frames: ImageData[], options: WebpEncodeOptions): Promise<Uint8Array> => {
+    if (frames.length === 0) throw new Error('Cannot encode a WebP without frames.');
+    const { width, height } = frames[0];
+
+    // VP8X with the animation and alpha flags set.
+    const header = riffChunk('VP8X', [0x12, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+    // Transparent background, loop count 0 = forever.
+    const anim = riffChunk('ANIM', [0, 0, 0, 0, ...(options.loop ? [0, 0] : [1, 0])]);
+
+    const anmfChunks: Uint8Array[] = [];
+    for (const [i, frame] of frames.entries()) {
+        if (frame.width !== width || frame.height !== height) {
+            throw new Error('All WebP frames must have the same size.');
+        }
+        const data = extractFrameData(await encodeStillWebp(frame, options.quality));
+        // Frame at (0, 0), no blending so each frame fully replaces the previous one.
+        const duration = Math.max(1, Math.round(options.delaysMs[i] ?? 100));
+        const frameHeader = [...uint24(0), ...uint24(0), ...uint24(width - 1), ...uint24(height - 1), ...uint24(duration), 0x02];
+        anmfChunks.push(riffChunk('ANMF', concat([Uint8Array.from(frameHeader), data])));
+    }
+
+    const body = concat([Uint8Array.from([0x57, 0x45, 0x42, 0x50]), header, anim, ...anmfChunks]);
+    return concat([Uint8Array.from([0x52, 0x49, 0x46, 0x46, ...uint32(body.length)]), body]);
+};